@@ -8,7 +8,16 @@ import React, {
   useImperativeHandle,
   useCallback,
 } from 'react';
-import { CurrencyInputProps, CurrencyInputOnChangeValues } from './CurrencyInputProps';
+import {
+  CurrencyInputProps,
+  CurrencyInputOnChangeValues,
+  CurrencyInputExpressionPreview,
+  CurrencyInputMathExpressionOptions,
+  CurrencyInputTape,
+  CurrencyInputTapeEntry,
+  CurrencyInputValidation,
+  CurrencyInputValidationError,
+} from './CurrencyInputProps';
 import {
   isNumber,
   cleanValue,
@@ -20,8 +29,30 @@ import {
   getSuffix,
   FormatValueOptions,
   repositionCursor,
-  evaluateMathExpressionSimple,
+  evaluateMathExpression,
+  mathExpressionFunctions,
+  mathExpressionOperators,
+  MathExpressionOperator,
+  MathExpressionResult,
+  parseRational,
+  rationalToDecimalString,
+  addRational,
+  createRational,
+  getExactDecimals,
+  fromMinorUnits,
+  toMinorUnits,
+  getFractionDigits,
+  applySignificantDigits,
+  hasExponent,
+  getOutOfRange,
+  clampValue,
+  validateValue,
+  isSameValidation,
+  stepValue,
+  snapValue,
 } from './utils';
+import { escapeRegExp } from './utils/escapeRegExp';
+import { CurrencyInputSpinner } from './CurrencyInputSpinner';
 
 export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
   HTMLInputElement,
@@ -31,23 +62,26 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
     {
       allowDecimals = true,
       allowNegativeValue = true,
+      allowExponentNotation = false,
       id,
       name,
       className,
       customInput,
       decimalsLimit,
-      defaultValue,
+      defaultValue: _defaultValue,
       disabled = false,
       maxLength: userMaxLength,
-      value: userValue,
+      value: _userValue,
       onValueChange,
       fixedDecimalLength,
       placeholder,
-      decimalScale,
+      decimalScale: _decimalScale,
       prefix,
       suffix,
       intlConfig,
       step,
+      stepMultipliers,
+      snapToStep = false,
       min,
       max,
       disableGroupSeparators = false,
@@ -59,8 +93,32 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
       onBlur,
       onKeyDown,
       onKeyUp,
+      onPaste,
       transformRawValue,
+      roundingMode,
+      significantDigits,
+      notation = 'standard',
+      rangeMode = 'allow',
       formatValueOnBlur = true,
+      mathExpressions = true,
+      expressionVariables,
+      expressionFunctions,
+      expressionArithmetic = 'decimal',
+      expressionPercentageMode,
+      keepExpression = false,
+      defaultExpression,
+      onExpressionChange,
+      renderExpressionPreview,
+      onExpressionError,
+      tape = false,
+      apiRef,
+      valueUnit = 'major',
+      minorUnitScale: _minorUnitScale,
+      validate,
+      onValidationChange,
+      spinner = false,
+      wheelStep = false,
+      nativeValidation = false,
       ...props
     }: CurrencyInputProps,
     ref
@@ -86,88 +144,547 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
       throw new Error('decimalSeparator cannot be the same as groupSeparator');
     }
 
+    // Fraction digits of the currency or set in intlConfig, the default decimal scale and limit
+    const intlFractionDigits = useMemo(() => getFractionDigits(intlConfig), [intlConfig]);
+    const decimalsLimitWithDefault =
+      decimalsLimit ||
+      fixedDecimalLength ||
+      // Significant digits limit the decimals instead, up to the maximum of Intl.NumberFormat
+      (significantDigits !== undefined
+        ? 20
+        : intlFractionDigits
+          ? Math.max(intlFractionDigits.maximumFractionDigits, _decimalScale || 0)
+          : 2);
+
+    /**
+     * Decimal scale of the value, without decimalScale or fixedDecimalLength the value
+     * is padded to the minimum fraction digits of intlConfig and keeps its extra decimals
+     */
+    const getDecimalScale = (value: string): number | undefined => {
+      if (
+        _decimalScale !== undefined ||
+        fixedDecimalLength !== undefined ||
+        significantDigits !== undefined ||
+        !intlFractionDigits
+      ) {
+        return _decimalScale;
+      }
+
+      // Digits after the decimal separator, which is "." or decimalSeparator
+      const [, decimals = ''] = /[^\d-](\d*)$/.exec(value) || [];
+
+      return Math.min(
+        Math.max(intlFractionDigits.minimumFractionDigits, decimals.length),
+        decimalsLimitWithDefault
+      );
+    };
+
+    // Pad to the minimum fraction digits of intlConfig with the decimal scale, not while typing
+    const formatIntlConfig = useMemo(
+      () =>
+        intlConfig && intlConfig.minimumFractionDigits !== undefined
+          ? { ...intlConfig, minimumFractionDigits: undefined }
+          : intlConfig,
+      [intlConfig]
+    );
+
+    const minorUnitScale =
+      _minorUnitScale !== undefined
+        ? _minorUnitScale
+        : intlFractionDigits
+          ? intlFractionDigits.maximumFractionDigits
+          : 2;
+
+    /**
+     * Convert value in minor units to the same format as `value` in `onValueChange`
+     */
+    const toMajorUnits = (
+      value?: string | number | bigint
+    ): string | number | bigint | undefined =>
+      valueUnit === 'minor' && value != null && value !== ''
+        ? fromMinorUnits(value, minorUnitScale).replace('.', decimalSeparator)
+        : value;
+    const userValue = toMajorUnits(_userValue);
+    const defaultValue = toMajorUnits(_defaultValue);
+
     const formatValueOptions: Partial<FormatValueOptions> = {
       decimalSeparator,
       groupSeparator,
       disableGroupSeparators,
-      intlConfig,
+      intlConfig: formatIntlConfig,
       prefix: prefix || localeConfig.prefix,
       suffix: suffix,
+      roundingMode,
     };
 
     const cleanValueOptions: Partial<CleanValueOptions> = {
       decimalSeparator,
       groupSeparator,
-      allowDecimals,
-      decimalsLimit: decimalsLimit || fixedDecimalLength || 2,
+      allowDecimals: allowDecimals && decimalsLimitWithDefault > 0,
+      decimalsLimit: decimalsLimitWithDefault,
       allowNegativeValue,
       disableAbbreviations,
       prefix: prefix || localeConfig.prefix,
       transformRawValue,
+      roundingMode,
+      significantDigits,
+      allowExponentNotation,
     };
 
+    const [focused, setFocused] = useState(false);
+
+    /**
+     * Format value with the decimal scale and significant digits, which don't apply while typing,
+     * or in the notation when not focused
+     */
+    const formatFinalValue = (value: string, isFocused = focused): string =>
+      isFocused || notation === 'standard'
+        ? formatValue({
+            ...formatValueOptions,
+            decimalScale: getDecimalScale(value),
+            significantDigits,
+            value,
+          })
+        : formatValue({ ...formatValueOptions, significantDigits, notation, value });
+
     const [stateValue, setStateValue] = useState(() =>
       defaultValue != null
-        ? formatValue({ ...formatValueOptions, decimalScale, value: String(defaultValue) })
+        ? formatFinalValue(String(defaultValue))
         : userValue != null
-          ? formatValue({ ...formatValueOptions, decimalScale, value: String(userValue) })
+          ? formatFinalValue(String(userValue))
           : ''
     );
     const [dirty, setDirty] = useState(false);
     const [cursor, setCursor] = useState(0);
     const [changeCount, setChangeCount] = useState(0);
     const [lastKeyStroke, setLastKeyStroke] = useState<string | null>(null);
+    const [expressionPreview, setExpressionPreview] =
+      useState<CurrencyInputExpressionPreview | null>(null);
+    const expressionPrefix = prefix || localeConfig.prefix;
+    const expressionSuffix = suffix || localeConfig.suffix;
+
+    // Expression as entered and the formatted result it was evaluated to, for keepExpression.
+    // Restored from defaultExpression with the initial value as its result
+    const [keptExpression, setKeptExpression] = useState<{
+      expression: string;
+      formatted: string;
+    } | null>(() =>
+      keepExpression && defaultExpression && stateValue
+        ? {
+            expression: `${expressionPrefix}${defaultExpression}${expressionSuffix}`,
+            formatted: stateValue,
+          }
+        : null
+    );
+    const [tapeEntries, setTapeEntries] = useState<CurrencyInputTapeEntry[]>([]);
+    const [validationErrors, setValidationErrors] = useState<CurrencyInputValidationError[]>([]);
     const [lastValidValue, setLastValidValue] = useState<string>(() =>
       defaultValue != null
-        ? formatValue({ ...formatValueOptions, decimalScale, value: String(defaultValue) })
+        ? formatFinalValue(String(defaultValue))
         : userValue != null
-          ? formatValue({ ...formatValueOptions, decimalScale, value: String(userValue) })
+          ? formatFinalValue(String(userValue))
           : ''
     );
     const inputRef = useRef<HTMLInputElement>(null);
     useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
 
+    // Names of variables and functions the user can type, joined so the memoized callback stays stable
+    const expressionNames = [
+      ...Object.keys(mathExpressionFunctions),
+      ...Object.keys(expressionFunctions || {}),
+      ...Object.keys(expressionVariables || {}),
+    ].join(' ');
+
+    const mathExpressionOptions: CurrencyInputMathExpressionOptions =
+      typeof mathExpressions === 'object' ? mathExpressions : {};
+    const {
+      operators: expressionOperators = Object.keys(
+        mathExpressionOperators
+      ) as MathExpressionOperator[],
+      maxLength: expressionMaxLength,
+      evaluateOn: expressionEvaluateOn = ['blur', 'Enter'],
+    } = mathExpressionOptions;
+
+    // Characters of the operators the user can type, joined so the memoized callback stays stable
+    const operatorCharacters =
+      mathExpressions !== false
+        ? expressionOperators.map((operator) => mathExpressionOperators[operator]).join('')
+        : '';
+
     /**
      * Check if value contains math operators
      */
     const containsMathOperators = useCallback(
       (value: string): boolean => {
-        const cleanValue = value.replace(prefix || '', '').replace(suffix || '', '');
-        // Check for multiply, divide, percentage, parentheses
-        if (/[*/%()+]/.test(cleanValue)) {
+        if (!operatorCharacters) {
+          return false;
+        }
+        const withoutAffixes = value.replace(expressionPrefix, '').replace(expressionSuffix, '');
+        // The sign of an exponent is not an operator eg. "1.2e-7"
+        const cleanValue = (
+          allowExponentNotation ? withoutAffixes.replace(/(\d[eE])[+-]/g, '$1') : withoutAffixes
+        ).trim();
+        // Check for multiply, divide, power, percentage, plus, Unicode minus and parentheses
+        const operatorPattern = `[()${escapeRegExp(operatorCharacters.replace('-', ''))}]`;
+        if (new RegExp(operatorPattern).test(cleanValue)) {
           return true;
         }
-        // Check for minus/plus that's not at the start (to allow negative numbers)
-        if (/[^-+][-+]/.test(cleanValue)) {
+        // Check for minus that's not at the start (to allow negative numbers)
+        if (operatorCharacters.includes('-') && /[^-+]-/.test(cleanValue)) {
+          return true;
+        }
+        // Check for (partially typed) variable or function names,
+        // a letter directly after a digit is an abbreviation eg. 1k
+        const words = cleanValue.match(/\b[A-Za-z_]\w*/g) || [];
+        const names = expressionNames.split(' ');
+        if (words.some((word) => names.some((name) => name.startsWith(word)))) {
           return true;
         }
         return false;
       },
-      [prefix, suffix]
+      [
+        expressionPrefix,
+        expressionSuffix,
+        expressionNames,
+        operatorCharacters,
+        allowExponentNotation,
+      ]
     );
 
+    /**
+     * Check if value is in exponent notation, as typed or displayed with `notation`
+     */
+    const containsExponent = useCallback(
+      (value: string): boolean =>
+        (allowExponentNotation || notation !== 'standard') && hasExponent(value),
+      [allowExponentNotation, notation]
+    );
+
+    /**
+     * Remove prefix and suffix from an expression
+     */
+    const getCleanExpression = (value: string): string =>
+      value.replace(expressionPrefix, '').replace(expressionSuffix, '').trim();
+
+    /**
+     * Check if the expression is only a partly typed name eg. "ro" of "round",
+     * kept while typing but not provided as a value, and dropped on blur
+     */
+    const isPartialName = (value: string): boolean => {
+      const cleanExpression = getCleanExpression(value);
+
+      return (
+        /^[A-Za-z_]\w*$/.test(cleanExpression) &&
+        !expressionNames.split(' ').includes(cleanExpression)
+      );
+    };
+
+    /**
+     * Evaluate math expression in the value as formatted for the locale
+     *
+     * Returns the result with the decimal separator of the input, or why it is invalid
+     * with the error offset in the expression without prefix and suffix
+     */
+    const evaluateExpression = (value: string): MathExpressionResult => {
+      // Round the exact result once to the allowed decimals, instead of cutting off the rest
+      const decimals = cleanValueOptions.allowDecimals ? cleanValueOptions.decimalsLimit || 0 : 0;
+      const result = evaluateMathExpression(getCleanExpression(value), {
+        variables: expressionVariables,
+        functions: expressionFunctions,
+        decimalSeparator,
+        groupSeparator,
+        prefix: expressionPrefix,
+        suffix: expressionSuffix,
+        abbreviations: !disableAbbreviations,
+        operators: expressionOperators,
+        maxLength: expressionMaxLength,
+        arithmetic: expressionArithmetic,
+        divisionPrecision: decimals,
+        percentageMode: expressionPercentageMode,
+        roundingMode,
+      });
+
+      if (!result.ok) {
+        return result;
+      }
+
+      const resultValue =
+        expressionArithmetic === 'float'
+          ? result.value
+          : rationalToDecimalString(parseRational(result.value), decimals, roundingMode);
+
+      return { ok: true, value: resultValue.replace('.', decimalSeparator) };
+    };
+
+    /**
+     * Update the live preview of the expression being typed, null if the value is not an expression
+     */
+    const updateExpressionPreview = (preview: CurrencyInputExpressionPreview | null): void => {
+      if (!onExpressionChange && !renderExpressionPreview) {
+        return;
+      }
+      if (preview === null && expressionPreview === null) {
+        return;
+      }
+
+      setExpressionPreview(preview);
+      onExpressionChange && onExpressionChange(preview, name);
+    };
+
+    /**
+     * Restore the last valid value after an invalid expression is discarded
+     */
+    const discardExpression = (value: string, result: MathExpressionResult): void => {
+      setStateValue(lastValidValue);
+      updateExpressionPreview(null);
+
+      if (onExpressionError && !result.ok) {
+        onExpressionError(result.error, getCleanExpression(value), name);
+      }
+    };
+
+    /**
+     * Evaluate expression for the live preview
+     *
+     * Result is cleaned, clamped and formatted the same as the value committed on Enter or blur
+     */
+    const getExpressionPreview = (
+      value: string,
+      expression: string
+    ): CurrencyInputExpressionPreview => {
+      const result = evaluateExpression(value);
+
+      if (!result.ok) {
+        return { expression, valid: false, error: result.error };
+      }
+
+      const cleanedValue = cleanValue({ value: result.value, ...cleanValueOptions });
+      const stringValue = rangeMode !== 'allow' ? clampToRange(cleanedValue) : cleanedValue;
+
+      return {
+        expression,
+        valid: true,
+        value: stringValue,
+        formatted: formatValue({ value: stringValue, ...formatValueOptions }),
+      };
+    };
+
+    /**
+     * Entries of the tape with their exact total
+     */
+    const getTape = (entries: CurrencyInputTapeEntry[]): CurrencyInputTape => {
+      const sum = entries.reduce((total, { value }) => {
+        const valueWithoutSeparator = decimalSeparator
+          ? value.replace(decimalSeparator, '.')
+          : value;
+        return addRational(total, parseRational(valueWithoutSeparator));
+      }, createRational(0n));
+      const total = rationalToDecimalString(sum, getExactDecimals(sum) || 0).replace(
+        '.',
+        decimalSeparator
+      );
+
+      return {
+        entries,
+        total,
+        formattedTotal: formatFinalValue(total),
+      };
+    };
+
+    /**
+     * Add the values that depend on the mode to the values provided to `onValueChange`,
+     * `minor` with `valueUnit="minor"`, `tape` with `tape` and `outOfRange` when out of range
+     */
+    const withModeValues = (
+      values: CurrencyInputOnChangeValues,
+      entries = tapeEntries
+    ): CurrencyInputOnChangeValues => {
+      const outOfRange = getOutOfRange(values.decimal, min, max);
+
+      return {
+        ...values,
+        ...(valueUnit === 'minor' && {
+          minor: values.decimal ? toMinorUnits(values.decimal, minorUnitScale, roundingMode) : null,
+        }),
+        ...(tape && { tape: getTape(entries) }),
+        ...(outOfRange && { outOfRange }),
+      };
+    };
+
+    /**
+     * Limit value with the decimal separator of the input to `min` and `max`
+     */
+    const clampToRange = (value: string): string => {
+      const decimal = decimalSeparator ? value.replace(decimalSeparator, '.') : value;
+      const clamped = clampValue(decimal, min, max);
+
+      return clamped === decimal ? value : clamped.replace('.', decimalSeparator);
+    };
+
+    // Multiples of step are offset from min with snapToStep, like <input type="number">
+    const stepBase = min !== undefined ? min : 0;
+
+    /**
+     * Round value with the decimal separator of the input to the closest multiple of `step`
+     */
+    const snapToStepBase = (value: string): string => {
+      const decimal = decimalSeparator ? value.replace(decimalSeparator, '.') : value;
+
+      return step
+        ? snapValue(decimal, step, stepBase, roundingMode).replace('.', decimalSeparator)
+        : value;
+    };
+
+    /**
+     * Rules of `validate` with the `min` and `max` of the input, and its `step` with `step: true`
+     */
+    const getValidationRules = (): CurrencyInputValidation => {
+      const rules = { min, max, ...validate };
+
+      return { ...rules, step: rules.step === true ? step : rules.step };
+    };
+
+    /**
+     * Validate a value produced by a change or blur with `validate`, and report the errors if changed
+     */
+    const updateValidation = (
+      value: string | undefined,
+      values: CurrencyInputOnChangeValues
+    ): void => {
+      if (!validate) {
+        return;
+      }
+
+      const errors = validateValue(value, values, getValidationRules());
+
+      if (!isSameValidation(errors, validationErrors)) {
+        setValidationErrors(errors);
+        onValidationChange && onValidationChange(errors, name);
+      }
+    };
+
+    /**
+     * Update the entries of the tape and report them with the last valid value of the input
+     */
+    const updateTape = (entries: CurrencyInputTapeEntry[], formattedValue: string): void => {
+      setTapeEntries(entries);
+
+      if (onValueChange) {
+        const stringValue = cleanValue({ value: formattedValue, ...cleanValueOptions });
+        const stringValueWithoutSeparator = decimalSeparator
+          ? stringValue.replace(decimalSeparator, '.')
+          : stringValue;
+        const numberValue = parseFloat(stringValueWithoutSeparator);
+
+        onValueChange(
+          stringValue || undefined,
+          name,
+          withModeValues(
+            {
+              float: isNaN(numberValue) ? null : numberValue,
+              decimal: stringValueWithoutSeparator,
+              formatted: stringValue ? formattedValue : '',
+              value: stringValue,
+            },
+            entries
+          )
+        );
+      }
+    };
+
+    /**
+     * Add values to the tape and clear the input for the next entry
+     *
+     * Values are cleaned and formatted the same as the input, empty values are ignored
+     */
+    const addTapeEntries = (values: string[]): void => {
+      const entries = values
+        .map((value) => cleanValue({ value, ...cleanValueOptions }))
+        .filter((value) => value !== '' && value !== '-' && value !== decimalSeparator)
+        .map((value) => ({
+          value,
+          formatted: formatFinalValue(value),
+        }));
+
+      if (!entries.length) {
+        return;
+      }
+
+      setDirty(true);
+      setStateValue('');
+      setLastValidValue('');
+      setKeptExpression(null);
+      updateExpressionPreview(null);
+      updateTape([...tapeEntries, ...entries], '');
+    };
+
+    useImperativeHandle(apiRef, () => ({
+      getTape: () => getTape(tapeEntries),
+      undoTapeEntry: () => {
+        if (tapeEntries.length) {
+          updateTape(tapeEntries.slice(0, -1), lastValidValue);
+        }
+      },
+      clearTape: () => {
+        if (tapeEntries.length) {
+          updateTape([], lastValidValue);
+        }
+      },
+      stepUp: (multiplier = 1) => {
+        applyStep(multiplier);
+      },
+      stepDown: (multiplier = 1) => {
+        applyStep(-multiplier);
+      },
+    }));
+
     /**
      * Process change in value
+     *
+     * `expression` is the math expression the value was evaluated from, if any
      */
-    const processChange = (value: string, selectionStart?: number | null): void => {
+    const processChange = (
+      value: string,
+      selectionStart?: number | null,
+      expression?: string
+    ): void => {
       setDirty(true);
 
       // If value contains math operators, show raw input without formatting or cursor repositioning
       if (containsMathOperators(value)) {
         setStateValue(value);
+
+        if (isPartialName(value)) {
+          updateExpressionPreview(null);
+          return;
+        }
+
+        const cleanExpression = getCleanExpression(value);
         // Don't manipulate cursor for expressions - let it stay where user placed it
         // Still call onValueChange so controlled components can update
         if (onValueChange) {
-          const cleanExpression = value.replace(prefix || '', '').replace(suffix || '', '').trim();
-          onValueChange(cleanExpression, name, {
-            float: null,
-            formatted: value,
-            value: cleanExpression,
-          });
+          onValueChange(
+            cleanExpression,
+            name,
+            withModeValues({
+              float: null,
+              decimal: '',
+              formatted: value,
+              value: cleanExpression,
+            })
+          );
+        }
+        if (onExpressionChange || renderExpressionPreview) {
+          updateExpressionPreview(getExpressionPreview(value, cleanExpression));
         }
         return;
       }
 
+      updateExpressionPreview(null);
+
+      // Keep exponent notation as typed until blur eg. "1.2e-", the value is provided expanded
+      const isTypedExponent = allowExponentNotation && hasExponent(value);
+
       const { modifiedValue, cursorPosition } = repositionCursor({
         selectionStart,
         value,
@@ -176,16 +693,36 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
         groupSeparator,
       });
 
-      const stringValue = cleanValue({ value: modifiedValue, ...cleanValueOptions });
+      const cleanedValue = cleanValue({ value: modifiedValue, ...cleanValueOptions });
+
+      // Results of math expressions can't be blocked, they are clamped instead
+      const stringValue =
+        expression && rangeMode !== 'allow' ? clampToRange(cleanedValue) : cleanedValue;
 
       if (userMaxLength && stringValue.replace(/-/g, '').length > userMaxLength) {
         return;
       }
 
+      // Ignore changes past a bound that typing more digits can't fix eg. 10001 with max 1000
+      if (rangeMode === 'block' && !expression) {
+        const outOfRange = getOutOfRange(
+          decimalSeparator ? stringValue.replace(decimalSeparator, '.') : stringValue,
+          min,
+          max
+        );
+
+        if (outOfRange && outOfRange === (stringValue.startsWith('-') ? 'min' : 'max')) {
+          return;
+        }
+      }
+
       if (stringValue === '' || stringValue === '-' || stringValue === decimalSeparator) {
-        onValueChange && onValueChange(undefined, name, { float: null, formatted: '', value: '' });
+        const emptyValues = withModeValues({ float: null, decimal: '', formatted: '', value: '' });
+        onValueChange && onValueChange(undefined, name, emptyValues);
+        updateValidation(undefined, emptyValues);
         setStateValue(stringValue);
         setLastValidValue('');
+        setKeptExpression(null);
         // Always sets cursor after '-' or decimalSeparator input
         setCursor(1);
         return;
@@ -202,7 +739,7 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
         ...formatValueOptions,
       });
 
-      if (cursorPosition != null) {
+      if (cursorPosition != null && !isTypedExponent) {
         // Prevent cursor jumping
         let newCursor = cursorPosition + (formattedValue.length - value.length);
         newCursor = newCursor <= 0 ? (prefix ? prefix.length : 0) : newCursor;
@@ -211,17 +748,24 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
         setChangeCount(changeCount + 1);
       }
 
-      setStateValue(formattedValue);
+      setStateValue(isTypedExponent ? value : formattedValue);
       setLastValidValue(formattedValue);
+      setKeptExpression(
+        keepExpression && expression ? { expression, formatted: formattedValue } : null
+      );
 
-      if (onValueChange) {
-        const values: CurrencyInputOnChangeValues = {
-          float: numberValue,
-          formatted: formattedValue,
-          value: stringValue,
-        };
-        onValueChange(stringValue, name, values);
+      const values: CurrencyInputOnChangeValues = {
+        float: numberValue,
+        decimal: stringValueWithoutSeparator,
+        formatted: formattedValue,
+        value: stringValue,
+      };
+      if (keepExpression && expression) {
+        values.expression = getCleanExpression(expression);
       }
+      const changeValues = withModeValues(values);
+      onValueChange && onValueChange(stringValue, name, changeValues);
+      updateValidation(stringValue, changeValues);
     };
 
     /**
@@ -241,6 +785,27 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
      * Handle focus event
      */
     const handleOnFocus = (event: React.FocusEvent<HTMLInputElement>): number => {
+      setFocused(true);
+
+      // Show the value displayed in exponent notation as a plain decimal for editing
+      if (notation !== 'standard' && hasExponent(event.target.value)) {
+        const plainValue = cleanValue({
+          ...cleanValueOptions,
+          allowExponentNotation: true,
+          value: event.target.value,
+        });
+        setStateValue(formatFinalValue(plainValue, true));
+      }
+
+      // Show the kept expression for editing, unless the value has changed since
+      if (keptExpression && event.target.value === keptExpression.formatted) {
+        const { expression } = keptExpression;
+        setStateValue(expression);
+        if (onExpressionChange || renderExpressionPreview) {
+          updateExpressionPreview(getExpressionPreview(expression, getCleanExpression(expression)));
+        }
+      }
+
       onFocus && onFocus(event);
       return stateValue ? stateValue.length : 0;
     };
@@ -255,21 +820,28 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
         target: { value },
       } = event;
 
+      setFocused(false);
+
       // Check if value contains math operators and try to evaluate
       if (containsMathOperators(value)) {
-        let cleanExpression = value.replace(prefix || '', '').replace(suffix || '', '').trim();
-        // Remove group separators and replace decimal separator with '.'
-        if (groupSeparator) {
-          cleanExpression = cleanExpression.replace(new RegExp(`\\${groupSeparator}`, 'g'), '');
+        // Drop a stray partly typed name eg. "a", without reporting an error
+        if (isPartialName(value)) {
+          setStateValue(lastValidValue);
+          onBlur && onBlur(event);
+          return;
         }
-        if (decimalSeparator && decimalSeparator !== '.') {
-          cleanExpression = cleanExpression.replace(new RegExp(`\\${decimalSeparator}`, 'g'), '.');
+
+        if (!expressionEvaluateOn.includes('blur')) {
+          // Keep the expression as entered until it is evaluated
+          onBlur && onBlur(event);
+          return;
         }
-        const evaluatedResult = evaluateMathExpressionSimple(cleanExpression);
 
-        if (evaluatedResult !== undefined) {
+        const evaluatedResult = evaluateExpression(value);
+
+        if (evaluatedResult.ok) {
           // Valid expression - process the result
-          processChange(String(evaluatedResult).replace('.', decimalSeparator));
+          processChange(evaluatedResult.value, undefined, value);
           // Set cursor to the end (for when field regains focus)
           setTimeout(() => {
             if (inputRef.current && document.activeElement === inputRef.current) {
@@ -279,7 +851,7 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
           }, 0);
         } else {
           // Invalid expression - restore last valid value
-          setStateValue(lastValidValue);
+          discardExpression(value, evaluatedResult);
         }
         onBlur && onBlur(event);
         return;
@@ -290,18 +862,34 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
       if (valueOnly === '-' || valueOnly === decimalSeparator || !valueOnly) {
         setStateValue('');
         setLastValidValue('');
+        updateValidation(
+          undefined,
+          withModeValues({ float: null, decimal: '', formatted: '', value: '' })
+        );
         onBlur && onBlur(event);
         return;
       }
 
-      const fixedDecimals = fixedDecimalValue(valueOnly, decimalSeparator, fixedDecimalLength);
-
-      const newValue = padTrimValue(
-        fixedDecimals,
+      const snappedValue = snapToStep === 'blur' ? snapToStepBase(valueOnly) : valueOnly;
+      const fixedDecimals = fixedDecimalValue(
+        rangeMode === 'clamp' ? clampToRange(snappedValue) : snappedValue,
         decimalSeparator,
-        decimalScale !== undefined ? decimalScale : fixedDecimalLength
+        fixedDecimalLength,
+        roundingMode
       );
 
+      const newValue =
+        significantDigits !== undefined
+          ? applySignificantDigits(fixedDecimals, decimalSeparator, significantDigits, roundingMode)
+          : padTrimValue(
+              fixedDecimals,
+              decimalSeparator,
+              _decimalScale === undefined && fixedDecimalLength !== undefined
+                ? fixedDecimalLength
+                : getDecimalScale(fixedDecimals),
+              roundingMode
+            );
+
       const stringValueWithoutSeparator = decimalSeparator
         ? newValue.replace(decimalSeparator, '.')
         : newValue;
@@ -312,106 +900,239 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
         ...formatValueOptions,
         value: newValue,
       });
+      const displayedValue =
+        notation !== 'standard'
+          ? formatValue({ ...formatValueOptions, notation, value: newValue })
+          : formattedValue;
+
+      const values = withModeValues({
+        float: numberValue,
+        decimal: stringValueWithoutSeparator,
+        formatted: formattedValue,
+        value: newValue,
+      });
 
       if (onValueChange && formatValueOnBlur) {
-        onValueChange(newValue, name, {
-          float: numberValue,
-          formatted: formattedValue,
-          value: newValue,
-        });
+        onValueChange(newValue, name, values);
       }
+      updateValidation(newValue, values);
 
-      setStateValue(formattedValue);
-      setLastValidValue(formattedValue);
+      setStateValue(displayedValue);
+      setLastValidValue(displayedValue);
 
       onBlur && onBlur(event);
     };
 
+    /**
+     * Multiplier of `step` for the modifier keys held, with `stepMultipliers`
+     */
+    const getModifierMultiplier = ({
+      shiftKey,
+      altKey,
+    }: {
+      shiftKey: boolean;
+      altKey: boolean;
+    }): number => {
+      const { shift = 10, alt = 0.1 } = stepMultipliers || {};
+
+      return shiftKey ? shift : altKey ? alt : 1;
+    };
+
+    /**
+     * Multiplier of `step` for the key, negative for keys that step down, with the multipliers
+     * of Shift and Alt for arrow keys. Undefined for keys that don't step
+     */
+    const getStepMultiplier = (
+      event: React.KeyboardEvent<HTMLInputElement>
+    ): number | undefined => {
+      const { key } = event;
+      const { page = 10 } = stepMultipliers || {};
+
+      if (key === 'PageUp' || key === 'PageDown') {
+        return key === 'PageUp' ? page : -page;
+      }
+
+      if (key === 'ArrowUp' || key === 'ArrowDown') {
+        const multiplier = getModifierMultiplier(event);
+        return key === 'ArrowUp' ? multiplier : -multiplier;
+      }
+
+      return undefined;
+    };
+
+    /**
+     * Bound Home and End jump to with `step`, undefined for other keys or without the bound
+     */
+    const getStepBound = (key: string): number | string | undefined =>
+      !step ? undefined : key === 'Home' ? min : key === 'End' ? max : undefined;
+
+    /**
+     * Value after stepping by `step` times the multiplier, or jumping to the bound, as a plain
+     * decimal string. Undefined if the value can't change, eg. at `max`
+     */
+    const getSteppedValue = (multiplier?: number, bound?: number | string): string | undefined => {
+      if (!step) {
+        return undefined;
+      }
+
+      const stringValue =
+        userValue != null
+          ? String(userValue)
+          : cleanValue({ value: stateValue, ...cleanValueOptions });
+      const currentValue = decimalSeparator
+        ? stringValue.replace(decimalSeparator, '.')
+        : stringValue;
+
+      // Steps past a bound are ignored, like stepping before it
+      const newValue =
+        bound !== undefined
+          ? clampValue(String(bound), min, max)
+          : stepValue(currentValue, step, multiplier, snapToStep ? stepBase : undefined);
+
+      if (
+        newValue === currentValue ||
+        getOutOfRange(newValue, min, max) ||
+        (!allowNegativeValue && newValue.startsWith('-'))
+      ) {
+        return undefined;
+      }
+
+      return newValue;
+    };
+
+    /**
+     * Step the value with the arrow keys, spinner buttons or `apiRef`, returns whether it changed
+     */
+    const applyStep = (multiplier?: number, bound?: number | string): boolean => {
+      const newValue = getSteppedValue(multiplier, bound);
+
+      setCursor(stateValue.length);
+
+      if (newValue === undefined) {
+        return false;
+      }
+
+      processChange(newValue.replace('.', decimalSeparator));
+      return true;
+    };
+
     /**
      * Handle key down event
      *
-     * Increase or decrease value by step
+     * Increase or decrease value by step, multiplied with modifier keys and page keys,
+     * or jump to min or max with Home or End
      */
     const handleOnKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
       const { key } = event;
 
       setLastKeyStroke(key);
 
-      // Handle Enter key for math expression evaluation
-      if (key === 'Enter') {
+      // Add the entry to the tape, evaluating it first if it is a math expression
+      if (tape && key === 'Enter') {
+        event.preventDefault();
         const value = stateValue;
+
         if (containsMathOperators(value)) {
-          event.preventDefault();
-          let cleanExpression = value.replace(prefix || '', '').replace(suffix || '', '').trim();
-          // Remove group separators and replace decimal separator with '.'
-          if (groupSeparator) {
-            cleanExpression = cleanExpression.replace(new RegExp(`\\${groupSeparator}`, 'g'), '');
+          const evaluatedResult = evaluateExpression(value);
+          if (evaluatedResult.ok) {
+            addTapeEntries([evaluatedResult.value]);
+          } else {
+            discardExpression(value, evaluatedResult);
           }
-          if (decimalSeparator && decimalSeparator !== '.') {
-            cleanExpression = cleanExpression.replace(new RegExp(`\\${decimalSeparator}`, 'g'), '.');
+          return;
+        }
+
+        addTapeEntries([value]);
+        return;
+      }
+
+      // Handle Enter and Tab keys for math expression evaluation
+      if ((key === 'Enter' || key === 'Tab') && expressionEvaluateOn.includes(key)) {
+        const value = stateValue;
+        if (containsMathOperators(value)) {
+          // Tab still moves the focus after evaluating
+          if (key === 'Enter') {
+            event.preventDefault();
           }
-          const evaluatedResult = evaluateMathExpressionSimple(cleanExpression);
+          const evaluatedResult = evaluateExpression(value);
 
-          if (evaluatedResult !== undefined) {
+          if (evaluatedResult.ok) {
             // Valid expression - process the result
-            processChange(String(evaluatedResult).replace('.', decimalSeparator));
-            // Set cursor to the end
+            processChange(evaluatedResult.value, undefined, value);
+            // Set cursor to the end, unless Tab moved the focus
             setTimeout(() => {
-              if (inputRef.current) {
+              if (inputRef.current && document.activeElement === inputRef.current) {
                 const newLength = inputRef.current.value.length;
                 inputRef.current.setSelectionRange(newLength, newLength);
               }
             }, 0);
           } else {
             // Invalid expression - restore last valid value
-            setStateValue(lastValidValue);
+            discardExpression(value, evaluatedResult);
           }
           return;
         }
       }
 
-      if (step && (key === 'ArrowUp' || key === 'ArrowDown')) {
+      const stepMultiplier = getStepMultiplier(event);
+      const stepBound = getStepBound(key);
+
+      if (step && (stepMultiplier !== undefined || stepBound !== undefined)) {
         event.preventDefault();
-        setCursor(stateValue.length);
-
-        const stringValue = userValue != null ? String(userValue) : undefined;
-        const stringValueWithoutSeparator =
-          decimalSeparator && stringValue
-            ? stringValue.replace(decimalSeparator, '.')
-            : stringValue;
-
-        const currentValue =
-          parseFloat(
-            stringValueWithoutSeparator != null
-              ? stringValueWithoutSeparator
-              : cleanValue({ value: stateValue, ...cleanValueOptions })
-          ) || 0;
-        const newValue = key === 'ArrowUp' ? currentValue + step : currentValue - step;
-
-        if (
-          (min !== undefined && newValue < Number(min)) ||
-          (!allowNegativeValue && newValue < 0)
-        ) {
-          return;
-        }
 
-        if (max !== undefined && newValue > Number(max)) {
+        if (!applyStep(stepMultiplier, stepBound)) {
           return;
         }
+      }
 
-        const fixedLength = String(step).includes('.')
-          ? Number(String(step).split('.')[1].length)
-          : undefined;
+      onKeyDown && onKeyDown(event);
+    };
 
-        processChange(
-          String(fixedLength ? newValue.toFixed(fixedLength) : newValue).replace(
-            '.',
-            decimalSeparator
-          )
-        );
+    /**
+     * Handle wheel event with `wheelStep`
+     *
+     * Step up when scrolling up and down when scrolling down, only while the input is focused
+     * so scrolling over the page isn't taken over. Pinch-zoom (ctrlKey) is left to the browser
+     */
+    const handleOnWheel = (event: WheelEvent): void => {
+      if (
+        !step ||
+        event.ctrlKey ||
+        !inputRef.current ||
+        document.activeElement !== inputRef.current
+      ) {
+        return;
       }
 
-      onKeyDown && onKeyDown(event);
+      // Browsers turn the wheel with Shift into horizontal scrolling on some platforms
+      const delta = event.deltaY || (event.shiftKey ? event.deltaX : 0);
+
+      if (!delta) {
+        return;
+      }
+
+      // Prevent the page from scrolling, also at min or max so it doesn't move unexpectedly
+      event.preventDefault();
+
+      const multiplier = getModifierMultiplier(event);
+      applyStep(delta < 0 ? multiplier : -multiplier);
+    };
+
+    /**
+     * Handle paste event
+     *
+     * Add each line of a pasted list to the tape
+     */
+    const handleOnPaste = (event: React.ClipboardEvent<HTMLInputElement>): void => {
+      if (tape) {
+        const text = event.clipboardData.getData('text');
+        if (/[\r\n]/.test(text.trim())) {
+          event.preventDefault();
+          addTapeEntries(text.split(/\r\n|\r|\n/));
+        }
+      }
+
+      onPaste && onPaste(event);
     };
 
     /**
@@ -425,8 +1146,8 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
         currentTarget: { selectionStart },
       } = event;
       
-      // Skip cursor manipulation for math expressions
-      if (key !== 'ArrowUp' && key !== 'ArrowDown' && stateValue !== '-' && !containsMathOperators(stateValue)) {
+      // Skip cursor manipulation for math expressions and exponent notation
+      if (getStepMultiplier(event) === undefined && getStepBound(key) === undefined && stateValue !== '-' && !containsMathOperators(stateValue) && !containsExponent(stateValue)) {
         const suffix = getSuffix(stateValue, { groupSeparator, decimalSeparator });
 
         if (suffix && selectionStart && selectionStart > stateValue.length - suffix.length) {
@@ -441,6 +1162,24 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
       onKeyUp && onKeyUp(event);
     };
 
+    // Latest wheel handler for the listener, as the value changes between events
+    const wheelHandlerRef = useRef(handleOnWheel);
+    wheelHandlerRef.current = handleOnWheel;
+
+    // React wheel listeners are passive, add one that can prevent scrolling
+    useEffect(() => {
+      const input = inputRef.current;
+
+      if (!wheelStep || !input || typeof input.addEventListener !== 'function') {
+        return;
+      }
+
+      const listener = (event: WheelEvent) => wheelHandlerRef.current(event);
+      input.addEventListener('wheel', listener, { passive: false });
+
+      return () => input.removeEventListener('wheel', listener);
+    }, [wheelStep, inputRef]);
+
     // Update state if userValue changes to undefined
     useEffect(() => {
       if (userValue == null && defaultValue == null) {
@@ -455,12 +1194,35 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
         dirty &&
         stateValue !== '-' &&
         !containsMathOperators(stateValue) &&
+        !containsExponent(stateValue) &&
         inputRef.current &&
         document.activeElement === inputRef.current
       ) {
         inputRef.current.setSelectionRange(cursor, cursor);
       }
-    }, [stateValue, cursor, inputRef, dirty, changeCount, containsMathOperators]);
+    }, [stateValue, cursor, inputRef, dirty, changeCount, containsMathOperators, containsExponent]);
+
+    /**
+     * Whether the value being typed is the controlled value in minor units, eg. "19." for 1900,
+     * which can't be told apart once converted back to major units
+     */
+    const isTypingMinorValue = (): boolean => {
+      if (valueUnit !== 'minor' || _userValue == null || _userValue === '' || !dirty) {
+        return false;
+      }
+
+      const typedValue = cleanValue({ value: stateValue, ...cleanValueOptions });
+      const decimal = decimalSeparator ? typedValue.replace(decimalSeparator, '.') : typedValue;
+
+      try {
+        return (
+          toMinorUnits(decimal, minorUnitScale, roundingMode) ===
+          toMinorUnits(String(_userValue), 0)
+        );
+      } catch {
+        return false;
+      }
+    };
 
     /**
      * If user has only entered "-" or decimal separator,
@@ -469,19 +1231,74 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
     const getRenderValue = () => {
       if (
         userValue != null &&
+        !isTypingMinorValue() &&
         stateValue !== '-' &&
-        (!decimalSeparator || stateValue !== decimalSeparator)
+        (!decimalSeparator || stateValue !== decimalSeparator) &&
+        !containsMathOperators(stateValue) &&
+        !(focused && containsExponent(stateValue))
       ) {
-        return formatValue({
-          ...formatValueOptions,
-          decimalScale: dirty ? undefined : decimalScale,
-          value: String(userValue),
-        });
+        return dirty && (focused || notation === 'standard')
+          ? formatValue({ ...formatValueOptions, value: String(userValue) })
+          : formatFinalValue(String(userValue));
       }
 
       return stateValue;
     };
 
+    /**
+     * Message of the first rule the displayed value breaks, or empty if valid, for `setCustomValidity`
+     *
+     * Expressions not evaluated yet, eg. with `evaluateOn: ['Enter']`, are checked by their result,
+     * or invalid with the error of the expression
+     */
+    const getCustomValidity = (displayedValue: string): string => {
+      if (containsMathOperators(displayedValue)) {
+        const { formatted, error } = getExpressionPreview(
+          displayedValue,
+          getCleanExpression(displayedValue)
+        );
+
+        return error ? error.message : getCustomValidity(formatted || '');
+      }
+
+      const cleanedValue = cleanValue({
+        ...cleanValueOptions,
+        allowExponentNotation: true,
+        value: displayedValue,
+      });
+      const valueOnly =
+        cleanedValue === '-' || cleanedValue === decimalSeparator ? '' : cleanedValue;
+      const stringValueWithoutSeparator = decimalSeparator
+        ? valueOnly.replace(decimalSeparator, '.')
+        : valueOnly;
+      const numberValue = parseFloat(stringValueWithoutSeparator);
+
+      const [error] = validateValue(
+        valueOnly || undefined,
+        withModeValues({
+          float: isNaN(numberValue) ? null : numberValue,
+          decimal: stringValueWithoutSeparator,
+          formatted: valueOnly ? displayedValue : '',
+          value: valueOnly,
+        }),
+        { required: props.required, ...getValidationRules() }
+      );
+
+      return error ? error.message : '';
+    };
+
+    const renderValue = getRenderValue();
+    const customValidity = nativeValidation ? getCustomValidity(renderValue) : '';
+
+    // Let the browser enforce the rules in forms, eg. with checkValidity() and :invalid
+    useEffect(() => {
+      const input = inputRef.current;
+
+      if (input && typeof input.setCustomValidity === 'function') {
+        input.setCustomValidity(customValidity);
+      }
+    }, [customValidity, inputRef]);
+
     const inputProps: React.ComponentPropsWithRef<'input'> = {
       type: 'text',
       inputMode: 'decimal',
@@ -493,19 +1310,47 @@ export const CurrencyInput: FC<CurrencyInputProps> = forwardRef<
       onFocus: handleOnFocus,
       onKeyDown: handleOnKeyDown,
       onKeyUp: handleOnKeyUp,
+      onPaste: handleOnPaste,
       placeholder,
       disabled,
-      value: getRenderValue(),
+      value: renderValue,
       ref: inputRef,
+      ...(validationErrors.length > 0 && {
+        'aria-invalid': true,
+        'aria-errormessage': id ? `${id}-error` : undefined,
+      }),
       ...props,
     };
 
+    let input = <input {...inputProps} />;
+
     if (customInput) {
       const CustomInput = customInput;
-      return <CustomInput {...inputProps} />;
+      input = <CustomInput {...inputProps} />;
+    }
+
+    // Always render the fragment with a preview slot, so the input isn't remounted and keeps focus
+    if (renderExpressionPreview || spinner) {
+      return (
+        <>
+          {input}
+          {spinner && (
+            <CurrencyInputSpinner
+              {...(spinner === true ? {} : spinner)}
+              controls={id}
+              canIncrement={!disabled && getSteppedValue(1) !== undefined}
+              canDecrement={!disabled && getSteppedValue(-1) !== undefined}
+              onStep={(direction) => !disabled && applyStep(direction)}
+            />
+          )}
+          {renderExpressionPreview &&
+            expressionPreview &&
+            renderExpressionPreview(expressionPreview)}
+        </>
+      );
     }
 
-    return <input {...inputProps} />;
+    return input;
   }
 );
 
@@ -1,4 +1,12 @@
 import React, { ElementType } from 'react';
+import {
+  MathExpressionError,
+  MathExpressionFunctions,
+  MathExpressionOperator,
+  MathExpressionPercentageMode,
+  MathExpressionVariables,
+} from './utils/evaluate-math-expression-simple';
+import { RoundingMode } from './utils/rational';
 
 type Overwrite<T, U> = Pick<T, Exclude<keyof T, keyof U>> & U;
 
@@ -14,9 +22,30 @@ export type CurrencyInputOnChangeValues = {
    * Example:
    *   - "1.99" > 1.99
    *   - "" > null
+   *
+   * Values beyond `Number.MAX_SAFE_INTEGER` or with more than 15 significant digits lose precision,
+   * use `decimal` for these
    */
   float: number | null;
 
+  /**
+   * Exact value as a plain decimal string with "." as decimal separator, never converted to a number
+   *
+   * Example:
+   *   - "12345678901234567,89" > "12345678901234567.89"
+   *   - "" > ""
+   */
+  decimal: string;
+
+  /**
+   * Exact value in minor units eg. cents, or null if empty. Only provided with `valueUnit="minor"`
+   *
+   * Decimals beyond the minor unit are rounded
+   *
+   * Example: "1234.56" > 123456n
+   */
+  minor?: bigint | null;
+
   /**
    * Value after applying formatting
    *
@@ -28,6 +57,387 @@ export type CurrencyInputOnChangeValues = {
    * Non formatted value as string (same as first argument in `onValueChange`)
    */
   value: string;
+
+  /**
+   * Math expression the value was calculated from, without prefix and suffix.
+   * Only provided with `keepExpression`
+   *
+   * Example: "120 * 3 + 15"
+   */
+  expression?: string;
+
+  /**
+   * Entries and running total of the tape. Only provided with `tape`
+   */
+  tape?: CurrencyInputTape;
+
+  /**
+   * Bound the value is out of, below `min` or above `max`. Only provided when out of range
+   */
+  outOfRange?: 'min' | 'max';
+};
+
+/**
+ * Entry on the tape, see `tape`.
+ *
+ * See {@link https://www.npmjs.com/package/react-currency-input-field#adding-machine-tape}
+ */
+export type CurrencyInputTapeEntry = {
+  /**
+   * Non formatted value, in the same format as `value` in `onValueChange`
+   *
+   * Example: "1234.5"
+   */
+  value: string;
+
+  /**
+   * Value formatted the same as the input
+   *
+   * Example: "$1,234.50"
+   */
+  formatted: string;
+};
+
+/**
+ * Entries and running total of the tape, provided to `onValueChange` and `apiRef`.
+ *
+ * See {@link https://www.npmjs.com/package/react-currency-input-field#adding-machine-tape}
+ */
+export type CurrencyInputTape = {
+  /**
+   * Entries in the order they were added
+   */
+  entries: CurrencyInputTapeEntry[];
+
+  /**
+   * Exact sum of the entries, in the same format as `value` in `onValueChange`
+   *
+   * Example: "0.1" + "0.2" > "0.3"
+   */
+  total: string;
+
+  /**
+   * Sum of the entries formatted the same as the input
+   *
+   * Example: "$0.30"
+   */
+  formattedTotal: string;
+};
+
+/**
+ * Methods to control the input, provided to `apiRef`.
+ */
+export type CurrencyInputApi = {
+  /**
+   * Entries and running total of the tape
+   */
+  getTape: () => CurrencyInputTape;
+
+  /**
+   * Remove the last entry from the tape
+   */
+  undoTapeEntry: () => void;
+
+  /**
+   * Remove all entries from the tape
+   */
+  clearTape: () => void;
+
+  /**
+   * Increase the value by `step` times the multiplier, like ArrowUp, ignored past `max`
+   */
+  stepUp: (multiplier?: number) => void;
+
+  /**
+   * Decrease the value by `step` times the multiplier, like ArrowDown, ignored past `min`
+   */
+  stepDown: (multiplier?: number) => void;
+};
+
+/**
+ * Options of the spinner buttons, provided to `spinner`.
+ *
+ * See {@link https://www.npmjs.com/package/react-currency-input-field#spinner-buttons}
+ */
+export type CurrencyInputSpinnerOptions = {
+  /**
+   * Accessible label of the increment button
+   *
+   * Default: "Increase value"
+   */
+  incrementLabel?: string;
+
+  /**
+   * Accessible label of the decrement button
+   *
+   * Default: "Decrease value"
+   */
+  decrementLabel?: string;
+
+  /**
+   * Time in ms a button is held before the step repeats
+   *
+   * Default: 400
+   */
+  delay?: number;
+
+  /**
+   * Time in ms between the first repeats
+   *
+   * Default: 100
+   */
+  interval?: number;
+
+  /**
+   * How repeats speed up, as a factor applied to the interval on each repeat,
+   * or as a function of the number of repeats returning the interval in ms
+   *
+   * Example: `(repeats) => (repeats < 10 ? 100 : 25)`
+   *
+   * Default: 0.9
+   */
+  acceleration?: number | ((repeats: number) => number);
+
+  /**
+   * Shortest time in ms between repeats
+   *
+   * Default: 20
+   */
+  minInterval?: number;
+
+  /**
+   * Class name of the element around the buttons
+   */
+  className?: string;
+};
+
+/**
+ * Live result of the math expression being typed, provided to `onExpressionChange` and `renderExpressionPreview`.
+ *
+ * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+ */
+export type CurrencyInputExpressionPreview = {
+  /**
+   * Expression as entered, without prefix and suffix
+   */
+  expression: string;
+
+  /**
+   * Whether the expression can be evaluated
+   */
+  valid: boolean;
+
+  /**
+   * Result as it will be committed, in the same format as `value` in `onValueChange`,
+   * or undefined if the expression is not valid
+   *
+   * Example: "1000 + 240" > "1240"
+   */
+  value?: string;
+
+  /**
+   * Why the expression is not valid, the offset is the position in `expression`
+   *
+   * Example: "1000 + (240" > `{ code: 'MISSING_PARENTHESIS', message: 'Missing closing parenthesis', offset: 7 }`
+   */
+  error?: MathExpressionError;
+
+  /**
+   * Result formatted the same as the input, or undefined if the expression is not valid
+   *
+   * Example: "1000 + 240" > "$1,240"
+   */
+  formatted?: string;
+};
+
+/**
+ * Built-in validation rules, see `validate`.
+ *
+ * See {@link https://www.npmjs.com/package/react-currency-input-field#validation}
+ */
+export type CurrencyInputValidationRule =
+  | 'required'
+  | 'min'
+  | 'max'
+  | 'precision'
+  | 'nonZero'
+  | 'step';
+
+/**
+ * Why the value is not valid, provided to `onValidationChange`.
+ *
+ * See {@link https://www.npmjs.com/package/react-currency-input-field#validation}
+ */
+export type CurrencyInputValidationError = {
+  /**
+   * Rule the value breaks, a built-in rule or the code returned by a custom validator.
+   * Custom validators returning a message have the code `custom`
+   */
+  code: CurrencyInputValidationRule | string;
+
+  /**
+   * Message of the rule, with its params filled in
+   *
+   * Example: "Enter 1000 or less"
+   */
+  message: string;
+
+  /**
+   * Values the message refers to
+   *
+   * Example: `{ max: '1000' }`
+   */
+  params?: Record<string, string | number>;
+};
+
+/**
+ * Custom validation, returns a message or an error when the value is not valid.
+ *
+ * Receives the value as provided to `onValueChange`, `values.decimal` is empty for an empty input
+ */
+export type CurrencyInputValidator = (
+  value: string | undefined,
+  values: CurrencyInputOnChangeValues
+) => string | CurrencyInputValidationError | null | undefined;
+
+/**
+ * Messages of the built-in rules, as a string where `{name}` is replaced by the param
+ * of the same name, or as a function of the params.
+ *
+ * Example: `{ max: 'Maximum {max}', min: ({ min }) => t('amount.min', { min }) }`
+ */
+export type CurrencyInputValidationMessages = Partial<
+  Record<
+    CurrencyInputValidationRule,
+    string | ((params: Record<string, string | number>) => string)
+  >
+>;
+
+/**
+ * Rules and custom validators of the value, provided to `validate`.
+ *
+ * See {@link https://www.npmjs.com/package/react-currency-input-field#validation}
+ */
+export type CurrencyInputValidation = {
+  /**
+   * The value can't be empty
+   */
+  required?: boolean;
+
+  /**
+   * Minimum value, a number or a decimal string compared exactly
+   *
+   * Default: `min` of the input
+   */
+  min?: number | string;
+
+  /**
+   * Maximum value, a number or a decimal string compared exactly
+   *
+   * Default: `max` of the input
+   */
+  max?: number | string;
+
+  /**
+   * Maximum number of decimals, trailing zeros excluded eg. "1.50" has 1 decimal
+   */
+  precision?: number;
+
+  /**
+   * The value can't be zero
+   */
+  nonZero?: boolean;
+
+  /**
+   * The value must be a multiple of this step offset from `min`, or of `step` of the input with `true`.
+   * Values snapped on blur with `snapToStep="blur"` always are
+   */
+  step?: number | boolean;
+
+  /**
+   * Custom validators, run after the built-in rules
+   */
+  custom?: CurrencyInputValidator | CurrencyInputValidator[];
+
+  /**
+   * Messages of the built-in rules, eg. to localize them
+   */
+  messages?: CurrencyInputValidationMessages;
+};
+
+/**
+ * Options of math expressions, provided to `mathExpressions`.
+ *
+ * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+ */
+export type CurrencyInputMathExpressionOptions = {
+  /**
+   * Operators the user can enter, eg. `['+', '-']`. Other operators are removed like any other invalid character.
+   *
+   * Note that `-` is also needed for negative numbers in expressions, and `*` for implicit multiplication eg. `2(3 + 4)`
+   *
+   * Default: all operators
+   */
+  operators?: MathExpressionOperator[];
+
+  /**
+   * Maximum length of an expression, without prefix and suffix. Longer expressions are invalid.
+   *
+   * Default: 200
+   */
+  maxLength?: number;
+
+  /**
+   * When an expression is evaluated. Until then, the expression is kept as entered.
+   *
+   * Default: `['blur', 'Enter']`
+   */
+  evaluateOn?: Array<'blur' | 'Enter' | 'Tab'>;
+};
+
+/**
+ * Range of significant digits, provided to `significantDigits`.
+ *
+ * See {@link https://www.npmjs.com/package/react-currency-input-field#significant-digits}
+ */
+export type CurrencyInputSignificantDigits = {
+  /**
+   * Decimals are padded with zeros on blur up to this number of significant digits
+   */
+  min?: number;
+
+  /**
+   * Digits beyond this number of significant digits can't be typed and are rounded on blur
+   */
+  max?: number;
+};
+
+/**
+ * Multipliers of `step` for modifier keys and page keys, provided to `stepMultipliers`.
+ *
+ * See {@link https://www.npmjs.com/package/react-currency-input-field#stepping}
+ */
+export type CurrencyInputStepMultipliers = {
+  /**
+   * Multiplier with Shift and an arrow key
+   *
+   * Default: 10
+   */
+  shift?: number;
+
+  /**
+   * Multiplier with Alt and an arrow key
+   *
+   * Default: 0.1
+   */
+  alt?: number;
+
+  /**
+   * Multiplier with PageUp and PageDown
+   *
+   * Default: 10
+   */
+  page?: number;
 };
 
 export type IntlConfig = {
@@ -55,6 +465,17 @@ export type CurrencyInputProps = Overwrite<
      */
     allowNegativeValue?: boolean;
 
+    /**
+     * Allow numbers in exponent notation to be typed or pasted, eg. `1.2e-7` or `3E9`.
+     * They are kept as typed until blur, and the value is provided as a plain decimal,
+     * limited by `decimalsLimit`.
+     *
+     * Default: `false`
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#exponent-notation}
+     */
+    allowExponentNotation?: boolean;
+
     /**
      * Component id
      *
@@ -90,7 +511,7 @@ export type CurrencyInputProps = Overwrite<
      *
      * Prevents typing more than the specified number of decimal places.
      *
-     * Default: `2`
+     * Default: the maximum fraction digits of the `intlConfig` currency, or `2`
      *
      * See {@link https://www.npmjs.com/package/react-currency-input-field#decimal-scale-and-decimals-limit}
      */
@@ -103,17 +524,62 @@ export type CurrencyInputProps = Overwrite<
      *   - 1.5 -> 1.50
      *   - 1.234 -> 1.23
      *
+     * Default: with a currency in `intlConfig`, pads to its minimum fraction digits
+     *
      * See {@link https://www.npmjs.com/package/react-currency-input-field#decimal-scale-and-decimals-limit}
      */
     decimalScale?: number;
 
+    /**
+     * How to round extra decimals, instead of truncating them.
+     *
+     * Applies when typing past `decimalsLimit`, to `decimalScale` and `fixedDecimalLength` on blur,
+     * and to the result of math expressions.
+     *
+     * Example with `decimalsLimit={2}`:
+     *   - `halfExpand`: 1.235 -> 1.24
+     *   - `halfEven`: 1.225 -> 1.22
+     *   - `floor`: -1.231 -> -1.24
+     *
+     * Default: truncate, and `halfExpand` for math expressions
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#rounding}
+     */
+    roundingMode?: RoundingMode;
+
+    /**
+     * Precision in significant digits instead of decimals, eg. for exchange rates.
+     * A number sets both the minimum and the maximum.
+     *
+     * Digits beyond the maximum can't be typed, and on blur the value is rounded to the maximum
+     * with `roundingMode` and padded to the minimum.
+     *
+     * Example with `significantDigits={5}`:
+     *   - 0.0012345678 -> 0.0012345
+     *   - 1234.5678 -> 1234.5
+     *   - 1.5 -> 1.5000
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#significant-digits}
+     */
+    significantDigits?: number | CurrencyInputSignificantDigits;
+
+    /**
+     * Display the value in scientific or engineering notation when the input isn't focused,
+     * eg. 0.00000012 -> 1.2E-7. While focused, the value is shown as a plain decimal to edit.
+     *
+     * Default: `standard`
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#exponent-notation}
+     */
+    notation?: 'standard' | 'scientific' | 'engineering';
+
     /**
      * Default value if not passing in value via props.
-     * Accepts a number or a numeric string.
+     * Accepts a number or a numeric string, or a bigint with `valueUnit="minor"`.
      *
      * See {@link https://www.npmjs.com/package/react-currency-input-field#props}
      */
-    defaultValue?: number | string;
+    defaultValue?: number | string | bigint;
 
     /**
      * Disabled
@@ -181,13 +647,62 @@ export type CurrencyInputProps = Overwrite<
      */
     suffix?: string;
 
+    /**
+     * How `min` and `max` are enforced, besides stepping with the arrow keys.
+     * Bounds can be numbers or decimal strings, which are compared exactly.
+     *
+     * - `allow`: values out of range can be entered, and are reported with `outOfRange` in `onValueChange`
+     * - `clamp`: like `allow`, and values out of range are set to the nearest bound on blur
+     * - `block`: changes that put the value past a bound that typing more digits can't fix are ignored,
+     *   eg. typing 10001 with `max={1000}`
+     *
+     * Default: `allow`
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#min-and-max}
+     */
+    rangeMode?: 'allow' | 'clamp' | 'block';
+
     /**
      * Incremental value change on arrow down and arrow up key press
      *
-     * See {@link https://www.npmjs.com/package/react-currency-input-field#props}
+     * Also enables larger and smaller steps with Shift, Alt, PageUp and PageDown, see `stepMultipliers`,
+     * and Home and End to jump to `min` and `max`. Steps past `min` or `max` are ignored.
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#stepping}
      */
     step?: number;
 
+    /**
+     * Multipliers of `step` with Shift or Alt and an arrow key, and with PageUp and PageDown
+     *
+     * Default: `{ shift: 10, alt: 0.1, page: 10 }`
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#stepping}
+     */
+    stepMultipliers?: CurrencyInputStepMultipliers;
+
+    /**
+     * Step the value with the mouse wheel while the input is focused, up when scrolling up,
+     * with the multipliers of Shift and Alt. The page doesn't scroll meanwhile.
+     *
+     * Default: `false`
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#stepping}
+     */
+    wheelStep?: boolean;
+
+    /**
+     * Snap values to multiples of `step` offset from `min`, or from 0 without `min`, like `<input type="number">`.
+     *
+     * - `true`: steps land on the next multiple in their direction, eg. ArrowUp from 1.03 with step 0.05 gives 1.10
+     * - `blur`: like `true`, and typed values are rounded to the closest multiple on blur, with `roundingMode`
+     *
+     * Default: `false`
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#stepping}
+     */
+    snapToStep?: boolean | 'blur';
+
     /**
      * Separator between integer part and fractional part of value.
      *
@@ -263,6 +778,181 @@ export type CurrencyInputProps = Overwrite<
      */
     transformRawValue?: (rawValue: string) => string;
 
+    /**
+     * Adding machine mode. Pressing Enter adds the entry to the tape and clears the input,
+     * and pasting a list of numbers on separate lines adds each of them.
+     *
+     * The entries and their total are provided to `onValueChange` as `tape`.
+     *
+     * Default: false
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#adding-machine-tape}
+     */
+    tape?: boolean;
+
+    /**
+     * Ref to the methods to control the input, eg. to undo the last entry on the tape.
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#adding-machine-tape}
+     */
+    apiRef?: React.Ref<CurrencyInputApi>;
+
+    /**
+     * Render increment and decrement buttons after the input, stepping by `step` like the arrow keys.
+     * Holding a button repeats the step, faster and faster. The buttons are disabled when the step would pass `min` or `max`.
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#spinner-buttons}
+     */
+    spinner?: boolean | CurrencyInputSpinnerOptions;
+
+    /**
+     * Allow the user to enter math expressions eg. `10 * (5 + 3)`, evaluated on blur or Enter.
+     *
+     * Set to `false` to disable them, or provide options to configure them.
+     *
+     * Default: true
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+     */
+    mathExpressions?: boolean | CurrencyInputMathExpressionOptions;
+
+    /**
+     * Named values that can be used in math expressions.
+     *
+     * Example: `{ subtotal: 1200, qty: 3 }` allows the user to enter `subtotal * 8%` or `qty * 12.5`.
+     *
+     * Expressions that reference an unknown name are treated as invalid.
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+     */
+    expressionVariables?: MathExpressionVariables;
+
+    /**
+     * Functions that can be called in math expressions, in addition to the built-in
+     * `abs`, `max`, `min` and `round`.
+     *
+     * Example: `{ tax: (amount) => amount * 0.2 }` allows the user to enter `tax(120)`.
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+     */
+    expressionFunctions?: MathExpressionFunctions;
+
+    /**
+     * Arithmetic used to evaluate math expressions.
+     *
+     * - `decimal`: exact, eg. `0.1 + 0.2` = `0.3`. The result is rounded half away from zero to `decimalsLimit`.
+     * - `float`: JavaScript numbers, eg. `0.1 + 0.2` = `0.30000000000000004`. Extra decimals are cut off.
+     *
+     * Default: `decimal`
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+     */
+    expressionArithmetic?: 'decimal' | 'float';
+
+    /**
+     * How `%` is calculated in math expressions.
+     *
+     * - `fraction`: `b%` is `b / 100`, eg. `200 + 10%` = `200.1`
+     * - `calculator`: like a desk calculator, `a + b%` and `a - b%` apply the percentage to `a`, eg. `200 + 10%` = `220`
+     *
+     * Default: `fraction`
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+     */
+    expressionPercentageMode?: MathExpressionPercentageMode;
+
+    /**
+     * Remember the math expression a value was calculated from, like a spreadsheet cell.
+     *
+     * The expression is shown again for editing on focus, and the formatted result on blur.
+     * It is provided to `onValueChange` as `expression` so it can be saved.
+     *
+     * Default = false
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+     */
+    keepExpression?: boolean;
+
+    /**
+     * Expression to restore with `keepExpression`, eg. `expression` saved from `onValueChange`.
+     *
+     * Pass the value it was calculated from as `defaultValue` or `value`. The expression
+     * is shown on focus while the input still shows that value.
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+     */
+    defaultExpression?: string;
+
+    /**
+     * Handle change in the live result of the math expression being typed.
+     *
+     * Called on every change while the value is an expression, and with `null`
+     * once it is no longer an expression (eg. after it has been evaluated).
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+     */
+    onExpressionChange?: (
+      preview: CurrencyInputExpressionPreview | null,
+      name?: string | undefined
+    ) => void;
+
+    /**
+     * Render the live result of the math expression being typed after the input,
+     * eg. `(preview) => preview.valid && <small>= {preview.formatted}</small>`
+     *
+     * Only called while the value is an expression.
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+     */
+    renderExpressionPreview?: (preview: CurrencyInputExpressionPreview) => React.ReactNode;
+
+    /**
+     * Handle an invalid math expression being discarded on blur or Enter.
+     *
+     * Receives why it is invalid and the expression without prefix and suffix,
+     * the error offset is the position in that expression.
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#math-expressions}
+     */
+    onExpressionError?: (
+      error: MathExpressionError,
+      expression: string,
+      name?: string | undefined
+    ) => void;
+
+    /**
+     * Validate the value with built-in rules and custom validators, when it changes and on blur.
+     *
+     * While the value is not valid, the input has `aria-invalid` and, with an `id`,
+     * `aria-errormessage` set to `{id}-error` for the element showing the message.
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#validation}
+     */
+    validate?: CurrencyInputValidation;
+
+    /**
+     * Handle the validation errors changing, with `validate`.
+     *
+     * Receives the errors, empty when the value is valid, and the `name` of the input.
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#validation}
+     */
+    onValidationChange?: (
+      errors: CurrencyInputValidationError[],
+      name?: string | undefined
+    ) => void;
+
+    /**
+     * Set the validity of the input with `setCustomValidity`, so forms block submission of values
+     * that break `min`, `max`, `required` or the rules of `validate`, and `:invalid` applies.
+     * The message is the one of the first broken rule, customizable with `validate.messages`.
+     *
+     * Default: `false`
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#validation}
+     */
+    nativeValidation?: boolean;
+
     /**
      * When set to `false`, the `onValueChange` will not be called on `blur` events.
      *
@@ -273,7 +963,8 @@ export type CurrencyInputProps = Overwrite<
     formatValueOnBlur?: boolean;
 
     /**
-     * Current value of the input. This should be a number or a numeric string.
+     * Current value of the input. This should be a number or a numeric string,
+     * or a bigint with `valueUnit="minor"`.
      *
      * If provided, the component is controlled.
      *
@@ -281,6 +972,26 @@ export type CurrencyInputProps = Overwrite<
      *
      * See {@link https://www.npmjs.com/package/react-currency-input-field#props}
      */
-    value?: string | number;
+    value?: string | number | bigint;
+
+    /**
+     * Unit of `value` and `defaultValue`.
+     *
+     * With `minor`, they are in minor units eg. cents, and `onValueChange` provides the exact value in minor units as `minor`.
+     *
+     * Default: `major`
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#minor-units}
+     */
+    valueUnit?: 'major' | 'minor';
+
+    /**
+     * Number of decimals of the minor unit, eg. 2 for cents, used with `valueUnit="minor"`.
+     *
+     * Default: `maximumFractionDigits` of `intlConfig` or its currency, or 2
+     *
+     * See {@link https://www.npmjs.com/package/react-currency-input-field#minor-units}
+     */
+    minorUnitScale?: number;
   }
 >;
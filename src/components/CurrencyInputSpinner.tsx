@@ -0,0 +1,127 @@
+import React, { FC, useEffect, useRef } from 'react';
+import { CurrencyInputSpinnerOptions } from './CurrencyInputProps';
+
+type CurrencyInputSpinnerProps = CurrencyInputSpinnerOptions & {
+  /**
+   * Step in the direction, returns false if the value can't change
+   */
+  onStep: (direction: 1 | -1) => boolean;
+
+  /**
+   * Whether the value can be increased and decreased, the buttons are disabled otherwise
+   */
+  canIncrement: boolean;
+  canDecrement: boolean;
+
+  /**
+   * Id of the input the buttons control
+   */
+  controls?: string;
+};
+
+/**
+ * Time in ms before the next repeat, after `repeats` repeats, sped up with `acceleration`
+ *
+ * Eg. with the defaults: 100, 90, 81 ... 20
+ */
+export const getRepeatInterval = (
+  repeats: number,
+  { interval = 100, acceleration = 0.9, minInterval = 20 }: CurrencyInputSpinnerOptions
+): number =>
+  Math.max(
+    minInterval,
+    typeof acceleration === 'function'
+      ? acceleration(repeats)
+      : interval * Math.pow(acceleration, repeats - 1)
+  );
+
+/**
+ * Increment and decrement buttons of `spinner`, holding a button repeats the step faster and faster
+ */
+export const CurrencyInputSpinner: FC<CurrencyInputSpinnerProps> = ({
+  onStep,
+  canIncrement,
+  canDecrement,
+  controls,
+  incrementLabel = 'Increase value',
+  decrementLabel = 'Decrease value',
+  delay = 400,
+  className,
+  ...timing
+}) => {
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Latest handler for the repeats, as the value changes between them
+  const onStepRef = useRef(onStep);
+  onStepRef.current = onStep;
+
+  const stop = (): void => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+  };
+
+  useEffect(() => stop, []);
+
+  /**
+   * Step once, then repeat after `delay` until released or the value can't change
+   */
+  const start = (direction: 1 | -1): void => {
+    stop();
+
+    if (!onStepRef.current(direction)) {
+      return;
+    }
+
+    const repeat = (repeats: number): void => {
+      timeoutRef.current = setTimeout(
+        () => {
+          if (onStepRef.current(direction)) {
+            repeat(repeats + 1);
+          } else {
+            timeoutRef.current = null;
+          }
+        },
+        repeats ? getRepeatInterval(repeats, timing) : delay
+      );
+    };
+
+    repeat(0);
+  };
+
+  const getButtonProps = (direction: 1 | -1): React.ComponentPropsWithoutRef<'button'> => ({
+    type: 'button',
+    // Not in the tab order, the input steps with the arrow keys
+    tabIndex: -1,
+    'aria-controls': controls,
+    onPointerDown: (event) => {
+      if (event.pointerType === 'mouse' && event.button !== 0) {
+        return;
+      }
+      start(direction);
+    },
+    onPointerUp: stop,
+    onPointerLeave: stop,
+    onPointerCancel: stop,
+    // Keep the focus in the input
+    onMouseDown: (event) => event.preventDefault(),
+    // Clicks without a pointer, eg. from assistive technologies, step once
+    onClick: (event) => {
+      if (event.detail === 0) {
+        onStepRef.current(direction);
+      }
+    },
+  });
+
+  return (
+    <span className={className}>
+      <button {...getButtonProps(1)} aria-label={incrementLabel} disabled={!canIncrement}>
+        +
+      </button>
+      <button {...getButtonProps(-1)} aria-label={decrementLabel} disabled={!canDecrement}>
+        −
+      </button>
+    </span>
+  );
+};
@@ -17,6 +17,7 @@ describe('<CurrencyInput/> abbreviated', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1500', undefined, {
       float: 1500,
+      decimal: '1500',
       formatted: '£1,500',
       value: '1500',
     });
@@ -33,6 +34,7 @@ describe('<CurrencyInput/> abbreviated', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('2123000', undefined, {
       float: 2123000,
+      decimal: '2123000',
       formatted: '£2,123,000',
       value: '2123000',
     });
@@ -44,6 +46,7 @@ describe('<CurrencyInput/> abbreviated', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1599000000', undefined, {
       float: 1599000000,
+      decimal: '1599000000',
       formatted: '£1,599,000,000',
       value: '1599000000',
     });
@@ -57,6 +60,7 @@ describe('<CurrencyInput/> abbreviated', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.5', undefined, {
       float: 1.5,
+      decimal: '1.5',
       formatted: '£1.5',
       value: '1.5',
     });
@@ -70,6 +74,7 @@ describe('<CurrencyInput/> abbreviated', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
       float: null,
+      decimal: '',
       formatted: '',
       value: '',
     });
@@ -80,6 +85,7 @@ describe('<CurrencyInput/> abbreviated', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
       float: null,
+      decimal: '',
       formatted: '',
       value: '',
     });
@@ -99,6 +105,7 @@ describe('<CurrencyInput/> abbreviated', () => {
 
       expect(onValueChangeSpy).toHaveBeenLastCalledWith('23', undefined, {
         float: 23,
+        decimal: '23',
         formatted: '23',
         value: '23',
       });
@@ -110,6 +117,7 @@ describe('<CurrencyInput/> abbreviated', () => {
 
       expect(onValueChangeSpy).toHaveBeenLastCalledWith('55', undefined, {
         float: 55,
+        decimal: '55',
         formatted: '55',
         value: '55',
       });
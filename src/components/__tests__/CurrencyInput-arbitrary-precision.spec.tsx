@@ -0,0 +1,56 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> arbitrary precision', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should keep values beyond Number.MAX_SAFE_INTEGER exact', () => {
+    render(<CurrencyInput prefix="$" onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '12345678901234567.89');
+    expect(screen.getByRole('textbox')).toHaveValue('$12,345,678,901,234,567.89');
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('12345678901234567.89', undefined, {
+      float: 12345678901234568,
+      decimal: '12345678901234567.89',
+      formatted: '$12,345,678,901,234,567.89',
+      value: '12345678901234567.89',
+    });
+    expect(screen.getByRole('textbox')).toHaveValue('$12,345,678,901,234,567.89');
+  });
+
+  it('should keep values with many significant digits exact', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'de-DE', currency: 'EUR' }}
+        decimalsLimit={18}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '0,123456789012345678');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('0,123456789012345678', undefined, {
+      float: 0.12345678901234568,
+      decimal: '0.123456789012345678',
+      formatted: '0,123456789012345678\xa0€',
+      value: '0,123456789012345678',
+    });
+  });
+
+  it('should format large default values exactly', () => {
+    render(<CurrencyInput prefix="£" defaultValue="98765432109876543210.12" />);
+
+    expect(screen.getByRole('textbox')).toHaveValue('£98,765,432,109,876,543,210.12');
+  });
+});
@@ -27,6 +27,7 @@ describe('<CurrencyInput/> backspace', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('12,3456', undefined, {
       float: 12.3456,
+      decimal: '12.3456',
       formatted: '12,3456 €',
       value: '12,3456',
     });
@@ -36,6 +37,7 @@ describe('<CurrencyInput/> backspace', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('12,3', undefined, {
       float: 12.3,
+      decimal: '12.3',
       formatted: '12,3 €',
       value: '12,3',
     });
@@ -58,6 +60,7 @@ describe('<CurrencyInput/> backspace', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.0', undefined, {
       float: 1,
+      decimal: '1.0',
       formatted: '£1.0',
       value: '1.0',
     });
@@ -67,6 +70,7 @@ describe('<CurrencyInput/> backspace', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.', undefined, {
       float: 1,
+      decimal: '1.',
       formatted: '£1.',
       value: '1.',
     });
@@ -76,6 +80,7 @@ describe('<CurrencyInput/> backspace', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1', undefined, {
       float: 1,
+      decimal: '1',
       formatted: '£1',
       value: '1',
     });
@@ -85,6 +90,7 @@ describe('<CurrencyInput/> backspace', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
       float: null,
+      decimal: '',
       formatted: '',
       value: '',
     });
@@ -106,6 +112,7 @@ describe('<CurrencyInput/> backspace', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('123456789', undefined, {
       float: 123456789,
+      decimal: '123456789',
       formatted: '$123,456,789',
       value: '123456789',
     });
@@ -115,6 +122,7 @@ describe('<CurrencyInput/> backspace', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('12345689', undefined, {
       float: 12345689,
+      decimal: '12345689',
       formatted: '$12,345,689',
       value: '12345689',
     });
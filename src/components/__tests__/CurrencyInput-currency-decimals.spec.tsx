@@ -0,0 +1,108 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> currency decimals', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not accept decimals for JPY', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'en-US', currency: 'JPY' }}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '123.45');
+
+    expect(screen.getByRole('textbox')).toHaveValue('¥12,345');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('12345', undefined, {
+      float: 12345,
+      decimal: '12345',
+      formatted: '¥12,345',
+      value: '12345',
+    });
+  });
+
+  it('should accept three decimals for KWD and pad them on blur', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'en-US', currency: 'KWD' }}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '1.2345');
+
+    expect(screen.getByRole('textbox')).toHaveValue('KWD\xa01.234');
+
+    userEvent.clear(screen.getByRole('textbox'));
+    userEvent.type(screen.getByRole('textbox'), '1.5');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.500', undefined, {
+      float: 1.5,
+      decimal: '1.500',
+      formatted: 'KWD\xa01.500',
+      value: '1.500',
+    });
+    expect(screen.getByRole('textbox')).toHaveValue('KWD\xa01.500');
+  });
+
+  it('should pad the default value to the decimals of the currency', () => {
+    render(<CurrencyInput intlConfig={{ locale: 'en-US', currency: 'USD' }} defaultValue={12} />);
+
+    expect(screen.getByRole('textbox')).toHaveValue('$12.00');
+  });
+
+  it('should respect the fraction digits of intlConfig', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{
+          locale: 'en-US',
+          currency: 'USD',
+          minimumFractionDigits: 1,
+          maximumFractionDigits: 4,
+        }}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '1.23456');
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1.2345');
+
+    userEvent.clear(screen.getByRole('textbox'));
+    userEvent.type(screen.getByRole('textbox'), '7');
+
+    expect(screen.getByRole('textbox')).toHaveValue('$7');
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('$7.0');
+  });
+
+  it('should prefer decimalsLimit and decimalScale', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'en-US', currency: 'USD' }}
+        decimalsLimit={4}
+        decimalScale={3}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '1.23456');
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1.2345');
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1.234');
+  });
+});
@@ -17,6 +17,7 @@ describe('<CurrencyInput/> decimals', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1234.56', undefined, {
       float: 1234.56,
+      decimal: '1234.56',
       formatted: '£1,234.56',
       value: '1234.56',
     });
@@ -30,6 +31,7 @@ describe('<CurrencyInput/> decimals', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('123456', undefined, {
       float: 123456,
+      decimal: '123456',
       formatted: '£123,456',
       value: '123456',
     });
@@ -43,6 +45,7 @@ describe('<CurrencyInput/> decimals', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1234.567', undefined, {
       float: 1234.567,
+      decimal: '1234.567',
       formatted: '£1,234.567',
       value: '1234.567',
     });
@@ -66,6 +69,7 @@ describe('<CurrencyInput/> decimals', () => {
     expect(screen.getByRole('textbox')).toHaveValue('.');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
       float: null,
+      decimal: '',
       formatted: '',
       value: '',
     });
@@ -75,6 +79,7 @@ describe('<CurrencyInput/> decimals', () => {
     expect(screen.getByRole('textbox')).toHaveValue('$0.9');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('.9', undefined, {
       float: 0.9,
+      decimal: '.9',
       formatted: '$0.9',
       value: '.9',
     });
@@ -95,6 +100,7 @@ describe('<CurrencyInput/> decimals', () => {
     expect(screen.getByRole('textbox')).toHaveValue('￥1');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1', undefined, {
       float: 1,
+      decimal: '1',
       formatted: '￥1',
       value: '1',
     });
@@ -117,6 +123,7 @@ describe('<CurrencyInput/> decimals', () => {
     expect(screen.getByRole('textbox')).toHaveValue('￥123');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('123', undefined, {
       float: 123,
+      decimal: '123',
       formatted: '￥123',
       value: '123',
     });
@@ -137,6 +144,7 @@ describe('<CurrencyInput/> decimals', () => {
     expect(screen.getByRole('textbox')).toHaveValue(',');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
       float: null,
+      decimal: '',
       formatted: '',
       value: '',
     });
@@ -146,6 +154,7 @@ describe('<CurrencyInput/> decimals', () => {
     expect(screen.getByRole('textbox')).toHaveValue('0,9\xa0€');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(',9', undefined, {
       float: 0.9,
+      decimal: '.9',
       formatted: '0,9 €',
       value: ',9',
     });
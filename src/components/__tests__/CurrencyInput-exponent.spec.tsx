@@ -0,0 +1,120 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> exponent notation', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should keep exponent notation as typed and provide the plain value', () => {
+    render(
+      <CurrencyInput allowExponentNotation decimalsLimit={10} onValueChange={onValueChangeSpy} />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '1.2e-7');
+
+    expect(screen.getByRole('textbox')).toHaveValue('1.2e-7');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('0.00000012', undefined, {
+      float: 0.00000012,
+      decimal: '0.00000012',
+      formatted: '0.00000012',
+      value: '0.00000012',
+    });
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('0.00000012');
+  });
+
+  it('should expand a pasted value', () => {
+    render(<CurrencyInput allowExponentNotation prefix="$" onValueChange={onValueChangeSpy} />);
+
+    userEvent.paste(screen.getByRole('textbox'), '3E9');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('$3,000,000,000');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('3000000000', undefined, {
+      float: 3000000000,
+      decimal: '3000000000',
+      formatted: '$3,000,000,000',
+      value: '3000000000',
+    });
+  });
+
+  it('should limit the expanded value to decimalsLimit', () => {
+    render(<CurrencyInput allowExponentNotation onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '1.2e-7');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('0.00');
+  });
+
+  it('should not treat the exponent sign as a math expression', () => {
+    render(<CurrencyInput allowExponentNotation decimalsLimit={4} />);
+
+    userEvent.type(screen.getByRole('textbox'), '2.5e+2');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('250');
+  });
+
+  it('should remove the exponent by default', () => {
+    render(<CurrencyInput onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '3e9');
+
+    expect(screen.getByRole('textbox')).toHaveValue('39');
+  });
+
+  describe('notation', () => {
+    it('should display the value in the notation when not focused', () => {
+      render(
+        <CurrencyInput
+          notation="scientific"
+          decimalsLimit={10}
+          defaultValue="0.00000012"
+          onValueChange={onValueChangeSpy}
+        />
+      );
+
+      expect(screen.getByRole('textbox')).toHaveValue('1.2E-7');
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('0.00000012');
+
+      userEvent.clear(screen.getByRole('textbox'));
+      userEvent.type(screen.getByRole('textbox'), '4500000');
+
+      expect(screen.getByRole('textbox')).toHaveValue('4,500,000');
+
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('4.5E6');
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('4500000', undefined, {
+        float: 4500000,
+        decimal: '4500000',
+        formatted: '4,500,000',
+        value: '4500000',
+      });
+    });
+
+    it('should display a controlled value in engineering notation', () => {
+      render(
+        <CurrencyInput
+          intlConfig={{ locale: 'de-DE', currency: 'EUR' }}
+          notation="engineering"
+          value="12345"
+        />
+      );
+
+      expect(screen.getByRole('textbox')).toHaveValue('12,345E3\xa0€');
+    });
+  });
+});
@@ -0,0 +1,841 @@
+import React, { useState } from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> math expressions', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should evaluate expression on blur', () => {
+    render(<CurrencyInput prefix="$" onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '10*(5+3)');
+    expect(screen.getByRole('textbox')).toHaveValue('$10*(5+3)');
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('80', undefined, {
+      float: 80,
+      decimal: '80',
+      formatted: '$80',
+      value: '80',
+    });
+    expect(screen.getByRole('textbox')).toHaveValue('$80');
+  });
+
+  it('should evaluate expression on Enter', () => {
+    render(<CurrencyInput prefix="$" onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '200*50%{enter}');
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('100', undefined, {
+      float: 100,
+      decimal: '100',
+      formatted: '$100',
+      value: '100',
+    });
+    expect(screen.getByRole('textbox')).toHaveValue('$100');
+  });
+
+  it('should restore last valid value for invalid expression', () => {
+    render(<CurrencyInput prefix="$" defaultValue={5} />);
+
+    userEvent.type(screen.getByRole('textbox'), '*(');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('$5');
+  });
+
+  describe('expressionVariables', () => {
+    const expressionVariables = { subtotal: 1200, qty: 3 };
+
+    it('should evaluate expression with variables', () => {
+      render(
+        <CurrencyInput
+          prefix="$"
+          expressionVariables={expressionVariables}
+          onValueChange={onValueChangeSpy}
+        />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), 'subtotal * 8%');
+      expect(screen.getByRole('textbox')).toHaveValue('subtotal * 8%');
+
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('96', undefined, {
+        float: 96,
+        decimal: '96',
+        formatted: '$96',
+        value: '96',
+      });
+      expect(screen.getByRole('textbox')).toHaveValue('$96');
+    });
+
+    it('should evaluate a single variable', () => {
+      render(<CurrencyInput expressionVariables={expressionVariables} />);
+
+      userEvent.type(screen.getByRole('textbox'), 'qty{enter}');
+
+      expect(screen.getByRole('textbox')).toHaveValue('3');
+    });
+
+    it('should restore last valid value for unknown variable', () => {
+      render(<CurrencyInput defaultValue={10} expressionVariables={expressionVariables} />);
+
+      userEvent.type(screen.getByRole('textbox'), ' + total');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('10');
+    });
+
+    it('should still parse abbreviations', () => {
+      render(<CurrencyInput expressionVariables={expressionVariables} />);
+
+      userEvent.type(screen.getByRole('textbox'), '1.5k');
+
+      expect(screen.getByRole('textbox')).toHaveValue('1,500');
+    });
+
+    it('should ignore letters without variables', () => {
+      render(<CurrencyInput />);
+
+      userEvent.type(screen.getByRole('textbox'), 'qty');
+
+      expect(screen.getByRole('textbox')).toHaveValue('');
+    });
+  });
+
+  describe('expressionFunctions', () => {
+    it('should not provide a partly typed function name as a value', () => {
+      const onExpressionErrorSpy = jest.fn();
+      render(
+        <CurrencyInput
+          defaultValue={12}
+          onValueChange={onValueChangeSpy}
+          onExpressionError={onExpressionErrorSpy}
+        />
+      );
+
+      userEvent.clear(screen.getByRole('textbox'));
+      onValueChangeSpy.mockClear();
+      userEvent.type(screen.getByRole('textbox'), 'ro');
+
+      expect(screen.getByRole('textbox')).toHaveValue('ro');
+      expect(onValueChangeSpy).not.toHaveBeenCalled();
+
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('');
+      expect(onValueChangeSpy).not.toHaveBeenCalled();
+      expect(onExpressionErrorSpy).not.toHaveBeenCalled();
+    });
+
+    it('should evaluate built-in functions and powers', () => {
+      render(<CurrencyInput prefix="$" decimalsLimit={3} onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), 'round(1234.567, 2){enter}');
+
+      expect(screen.getByRole('textbox')).toHaveValue('$1,234.57');
+
+      userEvent.clear(screen.getByRole('textbox'));
+      userEvent.type(screen.getByRole('textbox'), '2^10{enter}');
+
+      expect(screen.getByRole('textbox')).toHaveValue('$1,024');
+    });
+
+    it('should not mistake argument separators for group separators', () => {
+      render(<CurrencyInput />);
+
+      userEvent.type(screen.getByRole('textbox'), 'max(1,2, 1,500)');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('1,500');
+    });
+
+    it('should evaluate custom functions', () => {
+      render(<CurrencyInput expressionFunctions={{ tax: (amount) => amount * 0.2 }} />);
+
+      userEvent.type(screen.getByRole('textbox'), 'tax(120)');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('24');
+    });
+  });
+
+  describe('locale formatted numbers', () => {
+    it('should evaluate with custom separators on Enter', () => {
+      render(
+        <CurrencyInput
+          decimalSeparator=","
+          groupSeparator="."
+          prefix="€"
+          onValueChange={onValueChangeSpy}
+        />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '1.234,5 + 2,5');
+      expect(screen.getByRole('textbox')).toHaveValue('€1.234,5+ 2,5');
+
+      userEvent.type(screen.getByRole('textbox'), '{enter}');
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('1237', undefined, {
+        float: 1237,
+        decimal: '1237',
+        formatted: '€1.237',
+        value: '1237',
+      });
+      expect(screen.getByRole('textbox')).toHaveValue('€1.237');
+    });
+
+    it('should evaluate with intlConfig on blur', () => {
+      render(
+        <CurrencyInput
+          intlConfig={{ locale: 'de-DE', currency: 'EUR' }}
+          onValueChange={onValueChangeSpy}
+        />
+      );
+
+      fireEvent.change(screen.getByRole('textbox'), {
+        target: { value: '1.234,50\xa0€ * 2 - 0,5' },
+      });
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('2468,5', undefined, {
+        float: 2468.5,
+        decimal: '2468.5',
+        formatted: '2.468,5\xa0€',
+        value: '2468,5',
+      });
+      expect(screen.getByRole('textbox')).toHaveValue('2.468,5\xa0€');
+    });
+
+    it('should evaluate with regex special separators', () => {
+      render(<CurrencyInput decimalSeparator="$" groupSeparator="*" />);
+
+      fireEvent.change(screen.getByRole('textbox'), { target: { value: '1*000$5 + 1' } });
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('1*001$5');
+    });
+
+    it('should not treat a negative value after a locale prefix as an expression', () => {
+      render(<CurrencyInput intlConfig={{ locale: 'nl-NL', currency: 'EUR' }} />);
+
+      userEvent.type(screen.getByRole('textbox'), '-1200');
+
+      expect(screen.getByRole('textbox')).toHaveValue('€\xa0-1.200');
+    });
+  });
+
+  describe('Unicode operators and implicit multiplication', () => {
+    it('should evaluate Unicode operators', () => {
+      render(<CurrencyInput prefix="$" onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '120×3−60÷4');
+      expect(screen.getByRole('textbox')).toHaveValue('$120×3−60÷4');
+      userEvent.type(screen.getByRole('textbox'), '{enter}');
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('345', undefined, {
+        float: 345,
+        decimal: '345',
+        formatted: '$345',
+        value: '345',
+      });
+    });
+
+    it('should evaluate a Unicode minus sign as negative', () => {
+      render(<CurrencyInput onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '−5');
+      expect(screen.getByRole('textbox')).toHaveValue('−5');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('-5');
+    });
+
+    it('should evaluate implicit multiplication', () => {
+      render(<CurrencyInput onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '2(3+4)');
+      expect(screen.getByRole('textbox')).toHaveValue('2(3+4)');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('14');
+    });
+  });
+
+  describe('abbreviations and currency symbols', () => {
+    it('should evaluate abbreviated numbers', () => {
+      render(<CurrencyInput prefix="$" onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '1.5k*3{enter}');
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('4500', undefined, {
+        float: 4500,
+        decimal: '4500',
+        formatted: '$4,500',
+        value: '4500',
+      });
+    });
+
+    it('should not evaluate abbreviated numbers if abbreviations are disabled', () => {
+      render(<CurrencyInput defaultValue={10} disableAbbreviations />);
+
+      fireEvent.change(screen.getByRole('textbox'), { target: { value: '1.5k*3' } });
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('10');
+    });
+
+    it('should evaluate the prefix on each number', () => {
+      render(<CurrencyInput prefix="$" onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '20+$5.50');
+      expect(screen.getByRole('textbox')).toHaveValue('$20+$5.50');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('25.5', undefined, {
+        float: 25.5,
+        decimal: '25.5',
+        formatted: '$25.5',
+        value: '25.5',
+      });
+    });
+
+    it('should evaluate the locale suffix on each number', () => {
+      render(<CurrencyInput intlConfig={{ locale: 'de-DE', currency: 'EUR' }} />);
+
+      fireEvent.change(screen.getByRole('textbox'), {
+        target: { value: '20\xa0€ + 5,50\xa0€ + 1,5k€' },
+      });
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(screen.getByRole('textbox')).toHaveValue('1.525,5\xa0€');
+    });
+  });
+
+  describe('expressionArithmetic', () => {
+    it('should calculate exactly by default', () => {
+      render(<CurrencyInput onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '0.1+0.2{enter}');
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('0.3', undefined, {
+        float: 0.3,
+        decimal: '0.3',
+        formatted: '0.3',
+        value: '0.3',
+      });
+    });
+
+    it('should round result to decimalsLimit', () => {
+      render(<CurrencyInput decimalsLimit={2} />);
+
+      userEvent.type(screen.getByRole('textbox'), '20/3{enter}');
+      expect(screen.getByRole('textbox')).toHaveValue('6.67');
+
+      userEvent.clear(screen.getByRole('textbox'));
+      userEvent.type(screen.getByRole('textbox'), '1.25*1.5{enter}');
+      expect(screen.getByRole('textbox')).toHaveValue('1.88');
+    });
+
+    it('should round result to integer if decimals are not allowed', () => {
+      render(<CurrencyInput allowDecimals={false} />);
+
+      userEvent.type(screen.getByRole('textbox'), '7/2{enter}');
+
+      expect(screen.getByRole('textbox')).toHaveValue('4');
+    });
+
+    it('should calculate with floats and cut off extra decimals if set to float', () => {
+      render(<CurrencyInput expressionArithmetic="float" onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '20/3{enter}');
+
+      expect(screen.getByRole('textbox')).toHaveValue('6.66');
+    });
+  });
+
+  describe('expressionPercentageMode', () => {
+    it('should divide percentages by 100 by default', () => {
+      render(<CurrencyInput onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '200+10%{enter}');
+
+      expect(screen.getByRole('textbox')).toHaveValue('200.1');
+    });
+
+    it('should apply percentages to the left operand if set to calculator', () => {
+      render(
+        <CurrencyInput
+          intlConfig={{ locale: 'en-US', currency: 'USD' }}
+          expressionPercentageMode="calculator"
+          onValueChange={onValueChangeSpy}
+        />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '19.99+15%');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('22.99', undefined, {
+        float: 22.99,
+        decimal: '22.99',
+        formatted: '$22.99',
+        value: '22.99',
+      });
+    });
+  });
+
+  describe('expression preview', () => {
+    const onExpressionChangeSpy = jest.fn();
+
+    it('should call onExpressionChange with the live result', () => {
+      render(
+        <CurrencyInput
+          name="amount"
+          prefix="$"
+          decimalsLimit={2}
+          onExpressionChange={onExpressionChangeSpy}
+        />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '1000+240.5');
+
+      expect(onExpressionChangeSpy).toHaveBeenLastCalledWith(
+        {
+          expression: '1,000+240.5',
+          valid: true,
+          value: '1240.5',
+          formatted: '$1,240.5',
+        },
+        'amount'
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '*');
+
+      expect(onExpressionChangeSpy).toHaveBeenLastCalledWith(
+        {
+          expression: '1,000+240.5*',
+          valid: false,
+          error: { code: 'UNEXPECTED_END', message: 'Unexpected end of expression', offset: 12 },
+        },
+        'amount'
+      );
+    });
+
+    it('should call onExpressionChange with null once the expression is evaluated', () => {
+      render(<CurrencyInput onExpressionChange={onExpressionChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '2*3');
+      expect(onExpressionChangeSpy).toHaveBeenCalledTimes(2);
+
+      userEvent.type(screen.getByRole('textbox'), '{enter}');
+      expect(onExpressionChangeSpy).toHaveBeenCalledTimes(3);
+      expect(onExpressionChangeSpy).toHaveBeenLastCalledWith(null, undefined);
+
+      userEvent.type(screen.getByRole('textbox'), '1');
+      expect(onExpressionChangeSpy).toHaveBeenCalledTimes(3);
+    });
+
+    it('should call onExpressionChange with null when an invalid expression is discarded', () => {
+      render(<CurrencyInput defaultValue={1} onExpressionChange={onExpressionChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '*');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onExpressionChangeSpy).toHaveBeenLastCalledWith(null, undefined);
+      expect(screen.getByRole('textbox')).toHaveValue('1');
+    });
+
+    it('should preview the same value that is committed', () => {
+      render(
+        <CurrencyInput
+          intlConfig={{ locale: 'en-US', currency: 'USD' }}
+          onExpressionChange={onExpressionChangeSpy}
+          onValueChange={onValueChangeSpy}
+        />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '20/3');
+      const [preview] =
+        onExpressionChangeSpy.mock.calls[onExpressionChangeSpy.mock.calls.length - 1];
+
+      userEvent.type(screen.getByRole('textbox'), '{enter}');
+
+      expect(preview.formatted).toEqual('$6.67');
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith(preview.value, undefined, {
+        float: 6.67,
+        decimal: '6.67',
+        formatted: preview.formatted,
+        value: preview.value,
+      });
+    });
+
+    it('should render the preview while the value is an expression', () => {
+      render(
+        <CurrencyInput
+          prefix="$"
+          renderExpressionPreview={(preview) => (
+            <output>{preview.valid ? `= ${preview.formatted}` : 'Invalid'}</output>
+          )}
+        />
+      );
+
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+
+      userEvent.type(screen.getByRole('textbox'), '1000+240');
+      expect(screen.getByRole('status')).toHaveTextContent('= $1,240');
+      expect(screen.getByRole('textbox')).toHaveFocus();
+
+      userEvent.type(screen.getByRole('textbox'), '+');
+      expect(screen.getByRole('status')).toHaveTextContent('Invalid');
+
+      fireEvent.focusOut(screen.getByRole('textbox'));
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('expression errors', () => {
+    const onExpressionErrorSpy = jest.fn();
+
+    it('should call onExpressionError when an invalid expression is discarded on blur', () => {
+      render(
+        <CurrencyInput prefix="$" defaultValue={5} onExpressionError={onExpressionErrorSpy} />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '*(2+3');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onExpressionErrorSpy).toHaveBeenCalledTimes(1);
+      expect(onExpressionErrorSpy).toHaveBeenLastCalledWith(
+        { code: 'MISSING_PARENTHESIS', message: 'Missing closing parenthesis', offset: 2 },
+        '5*(2+3',
+        undefined
+      );
+      expect(screen.getByRole('textbox')).toHaveValue('$5');
+    });
+
+    it('should call onExpressionError when an invalid expression is discarded on Enter', () => {
+      render(
+        <CurrencyInput
+          name="amount"
+          expressionVariables={{ qty: 3 }}
+          onExpressionError={onExpressionErrorSpy}
+        />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '10/(qty-3){enter}');
+
+      expect(onExpressionErrorSpy).toHaveBeenLastCalledWith(
+        { code: 'DIVISION_BY_ZERO', message: 'Division by zero', offset: 2 },
+        '10/(qty-3)',
+        'amount'
+      );
+      expect(screen.getByRole('textbox')).toHaveValue('10');
+    });
+
+    it('should not call onExpressionError for valid expressions', () => {
+      render(<CurrencyInput onExpressionError={onExpressionErrorSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '2+2{enter}');
+
+      expect(onExpressionErrorSpy).not.toHaveBeenCalled();
+      expect(screen.getByRole('textbox')).toHaveValue('4');
+    });
+
+    it('should include the error in the preview of an invalid expression', () => {
+      const onExpressionChangeSpy = jest.fn();
+      render(
+        <CurrencyInput
+          intlConfig={{ locale: 'de-DE', currency: 'EUR' }}
+          onExpressionChange={onExpressionChangeSpy}
+        />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '1,5*foo');
+
+      expect(onExpressionChangeSpy).toHaveBeenLastCalledWith(
+        {
+          expression: '1,5*foo',
+          valid: false,
+          error: { code: 'UNKNOWN_VARIABLE', message: 'Unknown variable "foo"', offset: 4 },
+        },
+        undefined
+      );
+    });
+  });
+
+  describe('keepExpression', () => {
+    it('should show the expression on focus and the result on blur', () => {
+      render(<CurrencyInput prefix="$" keepExpression onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '120*3+15');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('375', undefined, {
+        float: 375,
+        decimal: '375',
+        formatted: '$375',
+        value: '375',
+        expression: '120*3+15',
+      });
+      expect(screen.getByRole('textbox')).toHaveValue('$375');
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('$120*3+15');
+
+      fireEvent.focusOut(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('$375');
+    });
+
+    it('should restore a saved expression after a remount', () => {
+      const { unmount } = render(
+        <CurrencyInput prefix="$" keepExpression onValueChange={onValueChangeSpy} />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '120*3+15');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+      const [value, , { expression }] =
+        onValueChangeSpy.mock.calls[onValueChangeSpy.mock.calls.length - 1];
+      unmount();
+
+      render(
+        <CurrencyInput
+          prefix="$"
+          keepExpression
+          defaultValue={value}
+          defaultExpression={expression}
+          onValueChange={onValueChangeSpy}
+        />
+      );
+      expect(screen.getByRole('textbox')).toHaveValue('$375');
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('$120*3+15');
+
+      userEvent.type(screen.getByRole('textbox'), '+5');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('380', undefined, {
+        float: 380,
+        decimal: '380',
+        formatted: '$380',
+        value: '380',
+        expression: '120*3+15+5',
+      });
+    });
+
+    it('should not restore an expression without keepExpression or the value', () => {
+      const { unmount } = render(<CurrencyInput defaultValue="375" defaultExpression="120*3+15" />);
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('375');
+      unmount();
+
+      render(<CurrencyInput keepExpression defaultExpression="120*3+15" />);
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('');
+    });
+
+    it('should keep the edited expression', () => {
+      render(<CurrencyInput keepExpression onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '120*3+15{enter}');
+      expect(screen.getByRole('textbox')).toHaveValue('375');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      userEvent.type(screen.getByRole('textbox'), '+5');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('380', undefined, {
+        float: 380,
+        decimal: '380',
+        formatted: '380',
+        value: '380',
+        expression: '120*3+15+5',
+      });
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('120*3+15+5');
+    });
+
+    it('should forget the expression once a plain value is entered', () => {
+      render(<CurrencyInput keepExpression onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '2*3');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      userEvent.clear(screen.getByRole('textbox'));
+      userEvent.type(screen.getByRole('textbox'), '50');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('50', undefined, {
+        float: 50,
+        decimal: '50',
+        formatted: '50',
+        value: '50',
+      });
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('50');
+    });
+
+    it('should not keep the expression by default', () => {
+      render(<CurrencyInput onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '2*3');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(
+        onValueChangeSpy.mock.calls[onValueChangeSpy.mock.calls.length - 1][2]
+      ).not.toHaveProperty('expression');
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('6');
+    });
+
+    it('should show the expression of a controlled value until the value is changed', () => {
+      const ControlledInput = () => {
+        const [value, setValue] = useState<string | undefined>('');
+        return (
+          <>
+            <CurrencyInput
+              prefix="$"
+              keepExpression
+              value={value}
+              onValueChange={(value) => setValue(value)}
+            />
+            <button onClick={() => setValue('10')}>Reset</button>
+          </>
+        );
+      };
+      render(<ControlledInput />);
+
+      userEvent.type(screen.getByRole('textbox'), '20*(1+2)');
+      expect(screen.getByRole('textbox')).toHaveValue('$20*(1+2)');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('$60');
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('$20*(1+2)');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      userEvent.click(screen.getByRole('button'));
+      expect(screen.getByRole('textbox')).toHaveValue('$10');
+
+      fireEvent.focusIn(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('$10');
+    });
+  });
+
+  describe('mathExpressions', () => {
+    it('should treat operators as invalid characters when disabled', () => {
+      render(<CurrencyInput mathExpressions={false} onValueChange={onValueChangeSpy} />);
+
+      userEvent.type(screen.getByRole('textbox'), '2*3');
+      expect(screen.getByRole('textbox')).toHaveValue('23');
+
+      fireEvent.focusOut(screen.getByRole('textbox'));
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('23', undefined, {
+        float: 23,
+        decimal: '23',
+        formatted: '23',
+        value: '23',
+      });
+    });
+
+    it('should only accept the allowed operators', () => {
+      render(
+        <CurrencyInput
+          mathExpressions={{ operators: ['+', '-'] }}
+          onValueChange={onValueChangeSpy}
+        />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '2*3');
+      expect(screen.getByRole('textbox')).toHaveValue('23');
+
+      userEvent.type(screen.getByRole('textbox'), '+7');
+      expect(screen.getByRole('textbox')).toHaveValue('23+7');
+
+      fireEvent.focusOut(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('30');
+    });
+
+    it('should report disallowed operators in expressions', () => {
+      const onExpressionErrorSpy = jest.fn();
+      render(
+        <CurrencyInput
+          mathExpressions={{ operators: ['+'] }}
+          onExpressionError={onExpressionErrorSpy}
+        />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '2+3(4)');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onExpressionErrorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'OPERATOR_NOT_ALLOWED', offset: 3 }),
+        '2+3(4)',
+        undefined
+      );
+    });
+
+    it('should report expressions longer than maxLength', () => {
+      const onExpressionErrorSpy = jest.fn();
+      render(
+        <CurrencyInput
+          mathExpressions={{ maxLength: 5 }}
+          onExpressionError={onExpressionErrorSpy}
+        />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '1+2+3+4');
+      fireEvent.focusOut(screen.getByRole('textbox'));
+
+      expect(onExpressionErrorSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'TOO_LONG' }),
+        '1+2+3+4',
+        undefined
+      );
+      expect(screen.getByRole('textbox')).toHaveValue('1');
+    });
+
+    it('should evaluate on Tab', () => {
+      render(
+        <CurrencyInput mathExpressions={{ evaluateOn: ['Tab'] }} onValueChange={onValueChangeSpy} />
+      );
+
+      userEvent.type(screen.getByRole('textbox'), '2*3');
+      userEvent.tab();
+
+      expect(screen.getByRole('textbox')).not.toHaveFocus();
+      expect(screen.getByRole('textbox')).toHaveValue('6');
+      expect(onValueChangeSpy).toHaveBeenLastCalledWith('6', undefined, {
+        float: 6,
+        decimal: '6',
+        formatted: '6',
+        value: '6',
+      });
+    });
+
+    it('should keep the expression when not evaluated on blur or Enter', () => {
+      render(<CurrencyInput mathExpressions={{ evaluateOn: ['Tab'] }} />);
+
+      userEvent.type(screen.getByRole('textbox'), '2*3{enter}');
+      expect(screen.getByRole('textbox')).toHaveValue('2*3');
+
+      fireEvent.focusOut(screen.getByRole('textbox'));
+      expect(screen.getByRole('textbox')).toHaveValue('2*3');
+    });
+  });
+});
@@ -32,6 +32,7 @@ describe('<CurrencyInput/> fixedDecimalLength', () => {
 
       expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.230', undefined, {
         float: 1.23,
+        decimal: '1.230',
         formatted: '$1.230',
         value: '1.230',
       });
@@ -60,6 +61,7 @@ describe('<CurrencyInput/> fixedDecimalLength', () => {
 
       expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.23', undefined, {
         float: 1.23,
+        decimal: '1.23',
         formatted: '$1.23',
         value: '1.23',
       });
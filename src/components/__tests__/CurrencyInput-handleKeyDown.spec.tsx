@@ -33,6 +33,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowup}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('98', undefined, {
       float: 98,
+      decimal: '98',
       formatted: '£98',
       value: '98',
     });
@@ -41,6 +42,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('100', undefined, {
       float: 100,
+      decimal: '100',
       formatted: '£100',
       value: '100',
     });
@@ -54,6 +56,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
       userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
       expect(onValueChangeSpy).toBeCalledWith('-1', undefined, {
         float: -1,
+        decimal: '-1',
         formatted: '-£1',
         value: '-1',
       });
@@ -66,6 +69,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
       userEvent.type(screen.getByRole('textbox'), '{arrowup}');
       expect(onValueChangeSpy).toBeCalledWith('1', undefined, {
         float: 1,
+        decimal: '1',
         formatted: '£1',
         value: '1',
       });
@@ -80,6 +84,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
       userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
       expect(onValueChangeSpy).toHaveBeenLastCalledWith('97.75', undefined, {
         float: 97.75,
+        decimal: '97.75',
         formatted: '£97.75',
         value: '97.75',
       });
@@ -91,6 +96,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
       userEvent.type(screen.getByRole('textbox'), '{arrowup}');
       expect(onValueChangeSpy).toHaveBeenLastCalledWith('100.25', undefined, {
         float: 100.25,
+        decimal: '100.25',
         formatted: '£100.25',
         value: '100.25',
       });
@@ -106,6 +112,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
       userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
       expect(onValueChangeSpy).toBeCalledWith('94.5', undefined, {
         float: 94.5,
+        decimal: '94.5',
         formatted: '£94.5',
         value: '94.5',
       });
@@ -114,6 +121,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
       userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
       expect(onValueChangeSpy).toBeCalledWith('89.0', undefined, {
         float: 89,
+        decimal: '89.0',
         formatted: '£89.0',
         value: '89.0',
       });
@@ -128,6 +136,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
       userEvent.type(screen.getByRole('textbox'), '{arrowup}');
       expect(onValueChangeSpy).toBeCalledWith('105.5', undefined, {
         float: 105.5,
+        decimal: '105.5',
         formatted: '£105.5',
         value: '105.5',
       });
@@ -136,6 +145,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
       userEvent.type(screen.getByRole('textbox'), '{arrowup}');
       expect(onValueChangeSpy).toBeCalledWith('111.0', undefined, {
         float: 111,
+        decimal: '111.0',
         formatted: '£111.0',
         value: '111.0',
       });
@@ -162,6 +172,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
       userEvent.type(screen.getByRole('textbox'), '{arrowup}');
       expect(onValueChangeSpy).toHaveBeenLastCalledWith('-98', undefined, {
         float: -98,
+        decimal: '-98',
         formatted: '-£98',
         value: '-98',
       });
@@ -186,6 +197,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
       userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
       expect(onValueChangeSpy).toHaveBeenLastCalledWith('98', undefined, {
         float: 98,
+        decimal: '98',
         formatted: '£98',
         value: '98',
       });
@@ -203,6 +215,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowup}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('2.99', undefined, {
       float: 2.99,
+      decimal: '2.99',
       formatted: '£2.99',
       value: '2.99',
     });
@@ -211,6 +224,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.99', undefined, {
       float: 1.99,
+      decimal: '1.99',
       formatted: '£1.99',
       value: '1.99',
     });
@@ -219,6 +233,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('0.99', undefined, {
       float: 0.99,
+      decimal: '0.99',
       formatted: '£0.99',
       value: '0.99',
     });
@@ -227,6 +242,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('-0.01', undefined, {
       float: -0.01,
+      decimal: '-0.01',
       formatted: '-£0.01',
       value: '-0.01',
     });
@@ -250,6 +266,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('0', undefined, {
       float: 0,
+      decimal: '0',
       formatted: '£0',
       value: '0',
     });
@@ -258,6 +275,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('0', undefined, {
       float: 0,
+      decimal: '0',
       formatted: '£0',
       value: '0',
     });
@@ -266,6 +284,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowup}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1', undefined, {
       float: 1,
+      decimal: '1',
       formatted: '£1',
       value: '1',
     });
@@ -289,6 +308,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('0', undefined, {
       float: 0,
+      decimal: '0',
       formatted: '£0',
       value: '0',
     });
@@ -297,6 +317,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('0', undefined, {
       float: 0,
+      decimal: '0',
       formatted: '£0',
       value: '0',
     });
@@ -305,6 +326,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowup}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1', undefined, {
       float: 1,
+      decimal: '1',
       formatted: '£1',
       value: '1',
     });
@@ -327,6 +349,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowup}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('45', undefined, {
       float: 45,
+      decimal: '45',
       formatted: '£45',
       value: '45',
     });
@@ -335,6 +358,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowup}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('45', undefined, {
       float: 45,
+      decimal: '45',
       formatted: '£45',
       value: '45',
     });
@@ -343,6 +367,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('44', undefined, {
       float: 44,
+      decimal: '44',
       formatted: '£44',
       value: '44',
     });
@@ -374,6 +399,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     expect(screen.getByRole('textbox')).toHaveValue('￥100');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('100', undefined, {
       float: 100,
+      decimal: '100',
       formatted: '￥100',
       value: '100',
     });
@@ -383,6 +409,7 @@ describe('<CurrencyInput/> handleKeyDown', () => {
     expect(screen.getByRole('textbox')).toHaveValue('￥200');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('200', undefined, {
       float: 200,
+      decimal: '200',
       formatted: '￥200',
       value: '200',
     });
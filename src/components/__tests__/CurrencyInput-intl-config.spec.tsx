@@ -13,7 +13,7 @@ describe('<CurrencyInput/> intlConfig', () => {
       <CurrencyInput id={id} intlConfig={{ locale: 'en-US', currency: 'USD' }} value="123456789" />
     );
 
-    expect(screen.getByRole('textbox')).toHaveValue('$123,456,789');
+    expect(screen.getByRole('textbox')).toHaveValue('$123,456,789.00');
   });
 
   it('should use intl config settings (en-IN, INR)', () => {
@@ -21,7 +21,7 @@ describe('<CurrencyInput/> intlConfig', () => {
       <CurrencyInput id={id} intlConfig={{ locale: 'hi-IN', currency: 'INR' }} value="500000" />
     );
 
-    expect(screen.getByRole('textbox')).toHaveValue('₹5,00,000');
+    expect(screen.getByRole('textbox')).toHaveValue('₹5,00,000.00');
   });
 
   it('should use intl config settings (ja-JP, JPY)', () => {
@@ -33,7 +33,13 @@ describe('<CurrencyInput/> intlConfig', () => {
       />
     );
 
-    expect(screen.getByRole('textbox')).toHaveValue('￥123456');
+    // Decimals past the 0 of JPY are cut off, instead of the separator being dropped
+    expect(screen.getByRole('textbox')).not.toHaveValue('￥123456');
+    expect(screen.getByRole('textbox')).toHaveValue('￥123');
+
+    userEvent.type(screen.getByRole('textbox'), '456');
+
+    expect(screen.getByRole('textbox')).toHaveValue('￥123,456');
 
     userEvent.type(screen.getByRole('textbox'), '{backspace}{backspace}{backspace}');
 
@@ -54,7 +60,7 @@ describe('<CurrencyInput/> intlConfig', () => {
       />
     );
 
-    expect(screen.getByRole('textbox')).toHaveValue('£100');
+    expect(screen.getByRole('textbox')).toHaveValue('£100.00');
   });
 
   it('should override locale group separator if groupSeparator passed in', () => {
@@ -80,7 +86,8 @@ describe('<CurrencyInput/> intlConfig', () => {
       />
     );
 
-    expect(screen.getByRole('textbox')).toHaveValue('$123,456-789');
+    // The third decimal is cut off, USD has 2
+    expect(screen.getByRole('textbox')).toHaveValue('$123,456-78');
   });
 
   describe('onValueChange', () => {
@@ -105,6 +112,7 @@ describe('<CurrencyInput/> intlConfig', () => {
 
       expect(onValueChangeSpy).toHaveBeenLastCalledWith('1234567', undefined, {
         float: 1234567,
+        decimal: '1234567',
         formatted: '₹12,34,567',
         value: '1234567',
       });
@@ -43,6 +43,7 @@ describe('<CurrencyInput/> maxLength', () => {
     userEvent.type(screen.getByRole('textbox'), '{backspace}5');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('-125', undefined, {
       float: -125,
+      decimal: '-125',
       formatted: '-£125',
       value: '-125',
     });
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> valueUnit', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should accept defaultValue in minor units', () => {
+    render(<CurrencyInput prefix="$" valueUnit="minor" defaultValue={123456} />);
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1,234.56');
+  });
+
+  it('should accept bigint values beyond Number.MAX_SAFE_INTEGER', () => {
+    render(<CurrencyInput prefix="$" valueUnit="minor" value={1234567890123456789n} />);
+
+    expect(screen.getByRole('textbox')).toHaveValue('$12,345,678,901,234,567.89');
+  });
+
+  it('should provide the value in minor units', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'de-DE', currency: 'EUR' }}
+        valueUnit="minor"
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '1234,5');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1234,50', undefined, {
+      float: 1234.5,
+      decimal: '1234.50',
+      minor: 123450n,
+      formatted: '1.234,50\xa0€',
+      value: '1234,50',
+    });
+  });
+
+  it('should provide null when empty', () => {
+    render(<CurrencyInput valueUnit="minor" defaultValue={100} onValueChange={onValueChangeSpy} />);
+
+    userEvent.clear(screen.getByRole('textbox'));
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
+      float: null,
+      decimal: '',
+      minor: null,
+      formatted: '',
+      value: '',
+    });
+  });
+
+  it('should use the decimals of the currency', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'en-BH', currency: 'BHD' }}
+        valueUnit="minor"
+        defaultValue={1500}
+        decimalsLimit={3}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    expect(screen.getByRole('textbox')).toHaveValue('BHD\xa01.500');
+
+    userEvent.clear(screen.getByRole('textbox'));
+    userEvent.type(screen.getByRole('textbox'), '1.525');
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.525', undefined, {
+      float: 1.525,
+      decimal: '1.525',
+      minor: 1525n,
+      formatted: 'BHD\xa01.525',
+      value: '1.525',
+    });
+  });
+
+  it('should use the maximumFractionDigits of intlConfig', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'en-US', currency: 'USD', maximumFractionDigits: 3 }}
+        valueUnit="minor"
+        defaultValue={1500}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1.50');
+
+    userEvent.clear(screen.getByRole('textbox'));
+    userEvent.type(screen.getByRole('textbox'), '1.525');
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.525', undefined, {
+      float: 1.525,
+      decimal: '1.525',
+      minor: 1525n,
+      formatted: '$1.525',
+      value: '1.525',
+    });
+  });
+
+  it('should use minorUnitScale', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'en-US', currency: 'USD' }}
+        valueUnit="minor"
+        minorUnitScale={0}
+        defaultValue={15}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    expect(screen.getByRole('textbox')).toHaveValue('$15.00');
+
+    userEvent.clear(screen.getByRole('textbox'));
+    userEvent.type(screen.getByRole('textbox'), '15.5');
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('15.5', undefined, {
+      float: 15.5,
+      decimal: '15.5',
+      minor: 16n,
+      formatted: '$15.5',
+      value: '15.5',
+    });
+  });
+
+  it('should round trip a controlled value in minor units', () => {
+    const ControlledInput = () => {
+      const [cents, setCents] = useState<bigint | null | undefined>(1999n);
+      return (
+        <>
+          <CurrencyInput
+            prefix="$"
+            valueUnit="minor"
+            value={cents === null ? '' : cents}
+            onValueChange={(value, name, values) => setCents(values && values.minor)}
+          />
+          <output>{String(cents)}</output>
+        </>
+      );
+    };
+    render(<ControlledInput />);
+
+    expect(screen.getByRole('textbox')).toHaveValue('$19.99');
+
+    userEvent.type(screen.getByRole('textbox'), '{backspace}');
+    expect(screen.getByRole('status')).toHaveTextContent('1990');
+    expect(screen.getByRole('textbox')).toHaveValue('$19.9');
+  });
+
+  it('should keep trailing decimals typed into a controlled value in minor units', () => {
+    const ControlledInput = () => {
+      const [cents, setCents] = useState<bigint | null | undefined>(null);
+      return (
+        <>
+          <CurrencyInput
+            prefix="$"
+            valueUnit="minor"
+            value={cents == null ? '' : cents}
+            onValueChange={(value, name, values) => setCents(values && values.minor)}
+          />
+          <output>{String(cents)}</output>
+        </>
+      );
+    };
+    render(<ControlledInput />);
+
+    userEvent.type(screen.getByRole('textbox'), '19.05');
+    expect(screen.getByRole('textbox')).toHaveValue('$19.05');
+    expect(screen.getByRole('status')).toHaveTextContent('1905');
+
+    userEvent.clear(screen.getByRole('textbox'));
+    userEvent.type(screen.getByRole('textbox'), '10.50');
+    expect(screen.getByRole('textbox')).toHaveValue('$10.50');
+    expect(screen.getByRole('status')).toHaveTextContent('1050');
+  });
+
+  it('should reformat a controlled value in minor units changed by the parent', () => {
+    const { rerender } = render(<CurrencyInput prefix="$" valueUnit="minor" value={1905} />);
+
+    userEvent.type(screen.getByRole('textbox'), '{backspace}');
+    rerender(<CurrencyInput prefix="$" valueUnit="minor" value={2500} />);
+
+    expect(screen.getByRole('textbox')).toHaveValue('$25');
+  });
+
+  it('should not provide minor units by default', () => {
+    render(<CurrencyInput onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '12');
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('12', undefined, {
+      float: 12,
+      decimal: '12',
+      formatted: '12',
+      value: '12',
+    });
+  });
+});
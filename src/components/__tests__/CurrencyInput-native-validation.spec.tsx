@@ -0,0 +1,145 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> nativeValidation', () => {
+  const getInput = () => screen.getByRole('textbox') as HTMLInputElement;
+
+  it('should set the validity from min and max', () => {
+    render(<CurrencyInput nativeValidation prefix="$" min={10} max={1000} />);
+
+    expect(getInput().checkValidity()).toBe(true);
+
+    userEvent.type(getInput(), '1000.5');
+
+    expect(getInput().checkValidity()).toBe(false);
+    expect(getInput().validationMessage).toBe('Enter 1000 or less');
+    expect(getInput()).toBeInvalid();
+
+    userEvent.clear(getInput());
+    userEvent.type(getInput(), '5');
+
+    expect(getInput().validationMessage).toBe('Enter 10 or more');
+
+    userEvent.type(getInput(), '0');
+
+    expect(getInput().checkValidity()).toBe(true);
+    expect(getInput().validationMessage).toBe('');
+  });
+
+  it('should set the validity of the initial and controlled value', () => {
+    const { rerender } = render(<CurrencyInput nativeValidation max={100} value="150" />);
+
+    expect(getInput().validationMessage).toBe('Enter 100 or less');
+
+    rerender(<CurrencyInput nativeValidation max={100} value="50" />);
+
+    expect(getInput().checkValidity()).toBe(true);
+  });
+
+  it('should compare bounds beyond float precision exactly', () => {
+    render(
+      <CurrencyInput
+        nativeValidation
+        max="12345678901234567.89"
+        defaultValue="12345678901234567.9"
+      />
+    );
+
+    expect(getInput().checkValidity()).toBe(false);
+  });
+
+  it('should validate required', () => {
+    render(<CurrencyInput nativeValidation required />);
+
+    expect(getInput()).toBeRequired();
+    expect(getInput().validationMessage).toBe('Enter a value');
+
+    userEvent.type(getInput(), '-');
+
+    expect(getInput().validationMessage).toBe('Enter a value');
+
+    userEvent.type(getInput(), '1');
+
+    expect(getInput().checkValidity()).toBe(true);
+  });
+
+  it('should validate the rules and messages of validate', () => {
+    render(
+      <CurrencyInput
+        nativeValidation
+        decimalSeparator=","
+        groupSeparator="."
+        decimalsLimit={4}
+        validate={{
+          precision: 2,
+          max: 100,
+          messages: { precision: 'Maximal {precision} Nachkommastellen' },
+        }}
+      />
+    );
+
+    userEvent.type(getInput(), '1,234');
+
+    expect(getInput().validationMessage).toBe('Maximal 2 Nachkommastellen');
+
+    userEvent.type(getInput(), '{backspace}');
+
+    expect(getInput().checkValidity()).toBe(true);
+  });
+
+  it('should check expressions by their result', () => {
+    render(<CurrencyInput nativeValidation max={100} />);
+
+    userEvent.type(getInput(), '60+50');
+
+    expect(getInput().validationMessage).toBe('Enter 100 or less');
+
+    fireEvent.focusOut(getInput());
+
+    expect(getInput()).toHaveValue('110');
+    expect(getInput().validationMessage).toBe('Enter 100 or less');
+  });
+
+  it('should set the validity of invalid expressions not evaluated yet', () => {
+    render(<CurrencyInput nativeValidation mathExpressions={{ evaluateOn: ['Enter'] }} />);
+
+    userEvent.type(getInput(), '2*(');
+    fireEvent.focusOut(getInput());
+
+    expect(getInput()).toHaveValue('2*(');
+    expect(getInput().checkValidity()).toBe(false);
+    expect(getInput().validationMessage).toBe('Unexpected end of expression');
+
+    userEvent.type(getInput(), '3)');
+
+    expect(getInput().checkValidity()).toBe(true);
+  });
+
+  it('should block submission of forms', () => {
+    const onSubmit = jest.fn((event) => event.preventDefault());
+
+    render(
+      <form onSubmit={onSubmit}>
+        <CurrencyInput nativeValidation max={100} defaultValue={150} />
+      </form>
+    );
+
+    const form = getInput().form as HTMLFormElement;
+
+    expect(form.checkValidity()).toBe(false);
+
+    userEvent.clear(getInput());
+    userEvent.type(getInput(), '99');
+
+    expect(form.checkValidity()).toBe(true);
+  });
+
+  it('should not set the validity by default', () => {
+    render(<CurrencyInput max={100} defaultValue={150} />);
+
+    expect(getInput().checkValidity()).toBe(true);
+  });
+});
@@ -30,6 +30,7 @@ describe('<CurrencyInput/> negative value', () => {
     userEvent.type(screen.getByRole('textbox'), '-1234');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('-1234', undefined, {
       float: -1234,
+      decimal: '-1234',
       formatted: '-$1,234',
       value: '-1234',
     });
@@ -54,6 +55,7 @@ describe('<CurrencyInput/> negative value', () => {
     userEvent.type(screen.getByRole('textbox'), '-');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
       float: null,
+      decimal: '',
       formatted: '',
       value: '',
     });
@@ -82,6 +84,7 @@ describe('<CurrencyInput/> negative value', () => {
     expect(onValueChangeSpy).toHaveBeenCalledTimes(7);
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
       float: null,
+      decimal: '',
       formatted: '',
       value: '',
     });
@@ -107,6 +110,7 @@ describe('<CurrencyInput/> negative value', () => {
     userEvent.type(screen.getByRole('textbox'), '-1234');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1234', undefined, {
       float: 1234,
+      decimal: '1234',
       formatted: '$1,234',
       value: '1234',
     });
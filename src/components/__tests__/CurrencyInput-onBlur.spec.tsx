@@ -33,6 +33,7 @@ describe('<CurrencyInput/> onBlur', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('123.00', name, {
       float: 123,
+      decimal: '123.00',
       formatted: '$123.00',
       value: '123.00',
     });
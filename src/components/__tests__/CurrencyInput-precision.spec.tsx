@@ -19,6 +19,7 @@ describe('<CurrencyInput/> decimalScale', () => {
 
     expect(onValueChangeSpy).toBeCalledWith('1.50000', undefined, {
       float: 1.5,
+      decimal: '1.50000',
       formatted: '£1.50000',
       value: '1.50000',
     });
@@ -44,6 +45,7 @@ describe('<CurrencyInput/> decimalScale', () => {
 
     expect(onValueChangeSpy).toBeCalledWith('1.00', undefined, {
       float: 1,
+      decimal: '1.00',
       formatted: '£1.00',
       value: '1.00',
     });
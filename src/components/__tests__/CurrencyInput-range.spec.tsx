@@ -0,0 +1,209 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> rangeMode', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should report values out of range by default', () => {
+    render(<CurrencyInput min={0} max={1000} onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '1000.5');
+
+    expect(screen.getByRole('textbox')).toHaveValue('1,000.5');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1000.5', undefined, {
+      float: 1000.5,
+      decimal: '1000.5',
+      formatted: '1,000.5',
+      value: '1000.5',
+      outOfRange: 'max',
+    });
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('1,000.5');
+
+    userEvent.clear(screen.getByRole('textbox'));
+    userEvent.type(screen.getByRole('textbox'), '-1');
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('-1', undefined, {
+      float: -1,
+      decimal: '-1',
+      formatted: '-1',
+      value: '-1',
+      outOfRange: 'min',
+    });
+  });
+
+  it('should not report values in range', () => {
+    render(<CurrencyInput min={0} max={1000} onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '1000');
+
+    expect(
+      onValueChangeSpy.mock.calls[onValueChangeSpy.mock.calls.length - 1][2]
+    ).not.toHaveProperty('outOfRange');
+  });
+
+  it('should clamp the value on blur with clamp', () => {
+    render(
+      <CurrencyInput
+        prefix="$"
+        min={10}
+        max={1000}
+        rangeMode="clamp"
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '1000.01');
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1,000.01');
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1,000');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1000', undefined, {
+      float: 1000,
+      decimal: '1000',
+      formatted: '$1,000',
+      value: '1000',
+    });
+
+    userEvent.clear(screen.getByRole('textbox'));
+    userEvent.type(screen.getByRole('textbox'), '5');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('$10');
+  });
+
+  it('should clamp with the decimal separator of the input', () => {
+    render(
+      <CurrencyInput
+        decimalSeparator=","
+        groupSeparator="."
+        max="99.5"
+        rangeMode="clamp"
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '120,25');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('99,5');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('99,5', undefined, {
+      float: 99.5,
+      decimal: '99.5',
+      formatted: '99,5',
+      value: '99,5',
+    });
+  });
+
+  it('should ignore typing past max with block', () => {
+    render(<CurrencyInput max={1000} rangeMode="block" onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '10001');
+
+    expect(screen.getByRole('textbox')).toHaveValue('1,000');
+
+    userEvent.type(screen.getByRole('textbox'), '.5');
+
+    expect(screen.getByRole('textbox')).toHaveValue('1,000.');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1000.', undefined, {
+      float: 1000,
+      decimal: '1000.',
+      formatted: '1,000.',
+      value: '1000.',
+    });
+  });
+
+  it('should ignore typing past a negative min with block', () => {
+    render(<CurrencyInput min={-50} rangeMode="block" onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '-500');
+
+    expect(screen.getByRole('textbox')).toHaveValue('-50');
+  });
+
+  it('should keep values typing can bring in range with block', () => {
+    render(
+      <CurrencyInput min={10} max={1000} rangeMode="block" onValueChange={onValueChangeSpy} />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '5');
+
+    expect(screen.getByRole('textbox')).toHaveValue('5');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('5', undefined, {
+      float: 5,
+      decimal: '5',
+      formatted: '5',
+      value: '5',
+      outOfRange: 'min',
+    });
+  });
+
+  it('should clamp results of math expressions with block', () => {
+    render(<CurrencyInput max={1000} rangeMode="block" onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '600*2');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('1,000');
+  });
+
+  it('should preview the clamped result of math expressions with clamp', () => {
+    const onExpressionChangeSpy = jest.fn();
+    render(
+      <CurrencyInput
+        max={100}
+        rangeMode="clamp"
+        onExpressionChange={onExpressionChangeSpy}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '90*2');
+
+    expect(onExpressionChangeSpy).toHaveBeenLastCalledWith(
+      { expression: '90*2', valid: true, value: '100', formatted: '100' },
+      undefined
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '{enter}');
+
+    expect(screen.getByRole('textbox')).toHaveValue('100');
+  });
+
+  it('should compare bounds beyond float precision exactly', () => {
+    render(
+      <CurrencyInput
+        max="12345678901234567.89"
+        rangeMode="block"
+        decimalsLimit={3}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '12345678901234567.891');
+
+    expect(screen.getByRole('textbox')).toHaveValue('12,345,678,901,234,567.89');
+  });
+
+  it('should not step past bounds given as decimal strings', () => {
+    render(
+      <CurrencyInput max="10.5" step={1} defaultValue="10" onValueChange={onValueChangeSpy} />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '{arrowup}');
+
+    expect(screen.getByRole('textbox')).toHaveValue('10');
+    expect(onValueChangeSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> roundingMode', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should truncate extra decimals by default', () => {
+    render(<CurrencyInput prefix="$" onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '1.239');
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1.23');
+  });
+
+  it('should round when typing past decimalsLimit', () => {
+    render(<CurrencyInput prefix="$" roundingMode="halfExpand" onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '1.239');
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1.24');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.24', undefined, {
+      float: 1.24,
+      decimal: '1.24',
+      formatted: '$1.24',
+      value: '1.24',
+    });
+  });
+
+  it('should round to decimalScale on blur', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'de-DE', currency: 'EUR' }}
+        decimalsLimit={3}
+        decimalScale={2}
+        roundingMode="halfEven"
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '-1,225');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('-1,22', undefined, {
+      float: -1.22,
+      decimal: '-1.22',
+      formatted: '-1,22\xa0€',
+      value: '-1,22',
+    });
+  });
+
+  it('should round to fixedDecimalLength on blur', () => {
+    render(
+      <CurrencyInput
+        decimalsLimit={4}
+        fixedDecimalLength={2}
+        roundingMode="ceil"
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '2.0001');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('2.01');
+  });
+
+  it('should round the result of math expressions', () => {
+    render(<CurrencyInput roundingMode="floor" onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '20/3');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('6.66');
+  });
+
+  it('should round the value in minor units', () => {
+    render(
+      <CurrencyInput
+        valueUnit="minor"
+        decimalsLimit={3}
+        roundingMode="halfEven"
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '0.125');
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('0.125', undefined, {
+      float: 0.125,
+      decimal: '0.125',
+      minor: 12n,
+      formatted: '0.125',
+      value: '0.125',
+    });
+  });
+});
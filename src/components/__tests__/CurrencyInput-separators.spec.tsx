@@ -30,6 +30,7 @@ describe('<CurrencyInput/> separators', () => {
     userEvent.type(screen.getByRole('textbox'), '123456');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('123456', name, {
       float: 123456,
+      decimal: '123456',
       formatted: '£123456',
       value: '123456',
     });
@@ -52,6 +53,7 @@ describe('<CurrencyInput/> separators', () => {
     userEvent.type(screen.getByRole('textbox'), '123456,33');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('123456,33', name, {
       float: 123456.33,
+      decimal: '123456.33',
       formatted: '£123.456,33',
       value: '123456,33',
     });
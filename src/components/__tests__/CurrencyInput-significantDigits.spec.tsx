@@ -0,0 +1,92 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> significantDigits', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should prevent typing past the maximum significant digits', () => {
+    render(<CurrencyInput significantDigits={5} onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '0.0012345678');
+
+    expect(screen.getByRole('textbox')).toHaveValue('0.0012345');
+
+    userEvent.clear(screen.getByRole('textbox'));
+    userEvent.type(screen.getByRole('textbox'), '1234.5678');
+
+    expect(screen.getByRole('textbox')).toHaveValue('1,234.5');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1234.5', undefined, {
+      float: 1234.5,
+      decimal: '1234.5',
+      formatted: '1,234.5',
+      value: '1234.5',
+    });
+  });
+
+  it('should pad to the minimum significant digits on blur', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'en-US', currency: 'USD' }}
+        significantDigits={{ min: 3, max: 6 }}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '0.5');
+
+    expect(screen.getByRole('textbox')).toHaveValue('$0.5');
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('$0.500');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('0.500', undefined, {
+      float: 0.5,
+      decimal: '0.500',
+      formatted: '$0.500',
+      value: '0.500',
+    });
+  });
+
+  it('should round integer digits on blur', () => {
+    render(
+      <CurrencyInput
+        significantDigits={3}
+        roundingMode="halfExpand"
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '123567');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('124,000');
+  });
+
+  it('should take precedence over decimalScale', () => {
+    render(<CurrencyInput decimalScale={2} significantDigits={5} />);
+
+    userEvent.type(screen.getByRole('textbox'), '0.0012');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('0.0012000');
+  });
+
+  it('should format the default value', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'de-DE', currency: 'EUR' }}
+        significantDigits={5}
+        defaultValue="0.0012345678"
+      />
+    );
+
+    expect(screen.getByRole('textbox')).toHaveValue('0,0012345\xa0€');
+  });
+});
@@ -0,0 +1,151 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> snapToStep', () => {
+  const onValueChangeSpy = jest.fn();
+  const onValidationChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should step to the next multiple of step', () => {
+    render(
+      <CurrencyInput defaultValue="1.03" step={0.05} snapToStep onValueChange={onValueChangeSpy} />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '{arrowup}');
+
+    expect(screen.getByRole('textbox')).toHaveValue('1.10');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.10', undefined, {
+      float: 1.1,
+      decimal: '1.10',
+      formatted: '1.10',
+      value: '1.10',
+    });
+
+    userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
+
+    expect(screen.getByRole('textbox')).toHaveValue('1.05');
+  });
+
+  it('should add step without snapToStep', () => {
+    render(<CurrencyInput defaultValue="1.03" step={0.05} onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '{arrowup}');
+
+    expect(screen.getByRole('textbox')).toHaveValue('1.08');
+  });
+
+  it('should offset multiples from min', () => {
+    render(
+      <CurrencyInput
+        defaultValue={7}
+        step={5}
+        min={1}
+        snapToStep
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '{arrowdown}');
+    expect(screen.getByRole('textbox')).toHaveValue('1');
+
+    userEvent.type(screen.getByRole('textbox'), '{arrowup}');
+    expect(screen.getByRole('textbox')).toHaveValue('6');
+  });
+
+  it('should snap multiplied steps', () => {
+    render(<CurrencyInput defaultValue={7} step={1} snapToStep onValueChange={onValueChangeSpy} />);
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'PageUp' });
+    expect(screen.getByRole('textbox')).toHaveValue('20');
+  });
+
+  it('should snap typed values on blur with blur', () => {
+    render(
+      <CurrencyInput
+        prefix="$"
+        step={0.05}
+        snapToStep="blur"
+        decimalScale={2}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '1.03');
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1.03');
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('$1.05');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1.05', undefined, {
+      float: 1.05,
+      decimal: '1.05',
+      formatted: '$1.05',
+      value: '1.05',
+    });
+  });
+
+  it('should snap typed values with the decimal separator of the input', () => {
+    render(
+      <CurrencyInput
+        decimalSeparator=","
+        groupSeparator="."
+        step={0.5}
+        min={0.25}
+        snapToStep="blur"
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '1,1');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('1,25');
+  });
+
+  it('should not snap typed values on blur with true', () => {
+    render(<CurrencyInput step={0.05} snapToStep onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '1.03');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('1.03');
+  });
+
+  it('should flag values that are not a multiple of step', () => {
+    render(
+      <CurrencyInput
+        step={0.05}
+        validate={{ step: true }}
+        nativeValidation
+        onValidationChange={onValidationChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '1.03');
+
+    expect(onValidationChangeSpy).toHaveBeenLastCalledWith(
+      [
+        {
+          code: 'step',
+          message: 'Enter a value in steps of 0.05',
+          params: { step: '0.05', base: '0' },
+        },
+      ],
+      undefined
+    );
+    expect((screen.getByRole('textbox') as HTMLInputElement).validationMessage).toBe(
+      'Enter a value in steps of 0.05'
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '{backspace}5');
+
+    expect(onValidationChangeSpy).toHaveBeenLastCalledWith([], undefined);
+  });
+});
@@ -0,0 +1,203 @@
+import React, { createRef } from 'react';
+import '@testing-library/jest-dom';
+import { act, render, fireEvent, screen } from '@testing-library/react';
+import CurrencyInput from '../CurrencyInput';
+import { getRepeatInterval } from '../CurrencyInputSpinner';
+import { CurrencyInputApi } from '../CurrencyInputProps';
+
+describe('<CurrencyInput/> spinner', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Advance in slices, so the input renders between repeats like in a browser
+  const advance = (ms: number) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += 10) {
+      act(() => {
+        jest.advanceTimersByTime(Math.min(10, ms - elapsed));
+      });
+    }
+  };
+
+  const increase = () => screen.getByRole('button', { name: 'Increase value' });
+  const decrease = () => screen.getByRole('button', { name: 'Decrease value' });
+
+  it('should render buttons with accessible labels', () => {
+    render(<CurrencyInput id="amount" step={1} spinner />);
+
+    expect(increase()).toHaveAttribute('aria-controls', 'amount');
+    expect(decrease()).toHaveAttribute('aria-controls', 'amount');
+    expect(increase()).toHaveAttribute('type', 'button');
+  });
+
+  it('should use custom labels', () => {
+    render(
+      <CurrencyInput
+        step={1}
+        spinner={{ incrementLabel: 'Plus', decrementLabel: 'Moins', className: 'spinner' }}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Plus' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Moins' }).parentElement).toHaveClass('spinner');
+  });
+
+  it('should step once on press', () => {
+    render(
+      <CurrencyInput
+        prefix="£"
+        defaultValue={10}
+        step={1}
+        spinner
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    fireEvent.pointerDown(increase());
+    fireEvent.pointerUp(increase());
+
+    expect(screen.getByRole('textbox')).toHaveValue('£11');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('11', undefined, {
+      float: 11,
+      decimal: '11',
+      formatted: '£11',
+      value: '11',
+    });
+
+    advance(1000);
+
+    expect(onValueChangeSpy).toHaveBeenCalledTimes(1);
+
+    fireEvent.pointerDown(decrease());
+    fireEvent.pointerUp(decrease());
+
+    expect(screen.getByRole('textbox')).toHaveValue('£10');
+  });
+
+  it('should repeat faster while held', () => {
+    render(<CurrencyInput defaultValue={0} step={1} spinner onValueChange={onValueChangeSpy} />);
+
+    fireEvent.pointerDown(increase());
+    expect(screen.getByRole('textbox')).toHaveValue('1');
+
+    advance(399);
+    expect(screen.getByRole('textbox')).toHaveValue('1');
+
+    advance(1);
+    expect(screen.getByRole('textbox')).toHaveValue('2');
+
+    advance(100);
+    expect(screen.getByRole('textbox')).toHaveValue('3');
+
+    advance(90);
+    expect(screen.getByRole('textbox')).toHaveValue('4');
+
+    fireEvent.pointerLeave(increase());
+
+    advance(1000);
+    expect(screen.getByRole('textbox')).toHaveValue('4');
+  });
+
+  it('should use custom timing', () => {
+    render(
+      <CurrencyInput
+        defaultValue={0}
+        step={1}
+        spinner={{ delay: 100, acceleration: () => 50 }}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    fireEvent.pointerDown(increase());
+
+    advance(200);
+    expect(screen.getByRole('textbox')).toHaveValue('4');
+
+    fireEvent.pointerUp(increase());
+  });
+
+  it('should disable the buttons at min and max', () => {
+    render(
+      <CurrencyInput
+        defaultValue={8}
+        step={1}
+        min={0}
+        max={10}
+        spinner
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    expect(increase()).toBeEnabled();
+
+    fireEvent.pointerDown(increase());
+
+    advance(1000);
+
+    expect(screen.getByRole('textbox')).toHaveValue('10');
+    expect(increase()).toBeDisabled();
+    expect(decrease()).toBeEnabled();
+    expect(onValueChangeSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should disable the buttons when disabled or without step', () => {
+    const { rerender } = render(<CurrencyInput defaultValue={5} step={1} disabled spinner />);
+
+    expect(increase()).toBeDisabled();
+    expect(decrease()).toBeDisabled();
+
+    rerender(<CurrencyInput defaultValue={5} spinner />);
+
+    expect(increase()).toBeDisabled();
+  });
+
+  it('should step once on clicks without a pointer', () => {
+    render(<CurrencyInput defaultValue={5} step={0.5} spinner onValueChange={onValueChangeSpy} />);
+
+    fireEvent.click(decrease());
+
+    expect(screen.getByRole('textbox')).toHaveValue('4.5');
+  });
+
+  it('should step with apiRef', () => {
+    const apiRef = createRef<CurrencyInputApi>();
+    render(
+      <CurrencyInput
+        defaultValue={5}
+        step={1}
+        max={20}
+        apiRef={apiRef}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    act(() => apiRef.current?.stepUp());
+    expect(screen.getByRole('textbox')).toHaveValue('6');
+
+    act(() => apiRef.current?.stepUp(10));
+    expect(screen.getByRole('textbox')).toHaveValue('16');
+
+    act(() => apiRef.current?.stepUp(10));
+    expect(screen.getByRole('textbox')).toHaveValue('16');
+
+    act(() => apiRef.current?.stepDown());
+    expect(screen.getByRole('textbox')).toHaveValue('15');
+  });
+
+  describe('getRepeatInterval', () => {
+    it('should speed up the repeats', () => {
+      expect(getRepeatInterval(1, {})).toBe(100);
+      expect(getRepeatInterval(2, {})).toBe(90);
+      expect(getRepeatInterval(100, {})).toBe(20);
+      expect(getRepeatInterval(2, { interval: 200, acceleration: 0.5, minInterval: 10 })).toBe(100);
+      expect(getRepeatInterval(3, { acceleration: (repeats) => 300 / repeats })).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> step keys', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should multiply the step with Shift and Alt', () => {
+    render(
+      <CurrencyInput prefix="£" defaultValue={100} step={1} onValueChange={onValueChangeSpy} />
+    );
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'ArrowUp', shiftKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('£110');
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'ArrowDown', altKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('£109.9');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('109.9', undefined, {
+      float: 109.9,
+      decimal: '109.9',
+      formatted: '£109.9',
+      value: '109.9',
+    });
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'ArrowDown', shiftKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('£99.9');
+  });
+
+  it('should step with PageUp and PageDown', () => {
+    render(<CurrencyInput defaultValue={100} step={5} onValueChange={onValueChangeSpy} />);
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'PageUp' });
+    expect(screen.getByRole('textbox')).toHaveValue('150');
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'PageDown' });
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'PageDown' });
+    expect(screen.getByRole('textbox')).toHaveValue('50');
+  });
+
+  it('should use custom multipliers', () => {
+    render(
+      <CurrencyInput
+        defaultValue={100}
+        step={1}
+        stepMultipliers={{ shift: 5, alt: 0.5, page: 100 }}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'ArrowUp', shiftKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('105');
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'ArrowUp', altKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('105.5');
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'PageDown' });
+    expect(screen.getByRole('textbox')).toHaveValue('5.5');
+  });
+
+  it('should step with the decimal separator of the input', () => {
+    render(
+      <CurrencyInput
+        decimalSeparator=","
+        groupSeparator="."
+        defaultValue="1,5"
+        step={1}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'ArrowUp', altKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('1,6');
+  });
+
+  it('should jump to min and max with Home and End', () => {
+    render(
+      <CurrencyInput
+        prefix="£"
+        defaultValue={50}
+        step={1}
+        min={10}
+        max="1000"
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'End' });
+    expect(screen.getByRole('textbox')).toHaveValue('£1,000');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('1000', undefined, {
+      float: 1000,
+      decimal: '1000',
+      formatted: '£1,000',
+      value: '1000',
+    });
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Home' });
+    expect(screen.getByRole('textbox')).toHaveValue('£10');
+  });
+
+  it('should not handle Home and End without the bound', () => {
+    render(<CurrencyInput defaultValue={50} step={1} max={100} onValueChange={onValueChangeSpy} />);
+
+    expect(fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Home' })).toBe(true);
+    expect(onValueChangeSpy).not.toHaveBeenCalled();
+  });
+
+  it('should ignore large steps past min and max', () => {
+    render(
+      <CurrencyInput
+        defaultValue={95}
+        step={1}
+        min={0}
+        max={100}
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'PageUp' });
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'ArrowUp', shiftKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('95');
+    expect(onValueChangeSpy).not.toHaveBeenCalled();
+
+    userEvent.clear(screen.getByRole('textbox'));
+    userEvent.type(screen.getByRole('textbox'), '5');
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'PageDown' });
+    expect(screen.getByRole('textbox')).toHaveValue('5');
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Home' });
+    expect(screen.getByRole('textbox')).toHaveValue('0');
+  });
+
+  it('should not step without step', () => {
+    render(<CurrencyInput defaultValue={50} min={0} onValueChange={onValueChangeSpy} />);
+
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'PageUp' });
+    fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Home' });
+
+    expect(onValueChangeSpy).not.toHaveBeenCalled();
+    expect(screen.getByRole('textbox')).toHaveValue('50');
+  });
+
+  it('should keep the cursor before the suffix on End without max', () => {
+    render(<CurrencyInput suffix="%" defaultValue={50} step={1} />);
+
+    const input = screen.getByRole('textbox') as HTMLInputElement;
+    input.setSelectionRange(3, 3);
+    fireEvent.keyUp(input, { key: 'End' });
+
+    expect(input.selectionStart).toBe(2);
+  });
+
+  it('should not move the cursor on keyup after stepping to max with End', () => {
+    render(<CurrencyInput suffix="%" defaultValue={50} step={1} max={100} />);
+
+    const input = screen.getByRole('textbox') as HTMLInputElement;
+    input.setSelectionRange(3, 3);
+    fireEvent.keyUp(input, { key: 'End' });
+
+    expect(input.selectionStart).toBe(3);
+  });
+});
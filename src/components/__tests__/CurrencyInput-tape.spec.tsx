@@ -0,0 +1,169 @@
+import React, { createRef } from 'react';
+import '@testing-library/jest-dom';
+import { act, render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+import { CurrencyInputApi } from '../CurrencyInputProps';
+
+describe('<CurrencyInput/> tape', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should add the entry to the tape on Enter', () => {
+    render(<CurrencyInput prefix="$" tape onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '1234.5{enter}');
+
+    expect(screen.getByRole('textbox')).toHaveValue('');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
+      float: null,
+      decimal: '',
+      formatted: '',
+      value: '',
+      tape: {
+        entries: [{ value: '1234.5', formatted: '$1,234.5' }],
+        total: '1234.5',
+        formattedTotal: '$1,234.5',
+      },
+    });
+  });
+
+  it('should keep an exact running total', () => {
+    render(<CurrencyInput tape onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '0.1{enter}0.2{enter}');
+
+    expect(onValueChangeSpy.mock.calls[onValueChangeSpy.mock.calls.length - 1][2].tape).toEqual({
+      entries: [
+        { value: '0.1', formatted: '0.1' },
+        { value: '0.2', formatted: '0.2' },
+      ],
+      total: '0.3',
+      formattedTotal: '0.3',
+    });
+  });
+
+  it('should provide the tape with the value being entered', () => {
+    render(<CurrencyInput tape onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '10{enter}5');
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('5', undefined, {
+      float: 5,
+      decimal: '5',
+      formatted: '5',
+      value: '5',
+      tape: { entries: [{ value: '10', formatted: '10' }], total: '10', formattedTotal: '10' },
+    });
+  });
+
+  it('should evaluate math expressions before adding them', () => {
+    render(<CurrencyInput tape onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '3*4{enter}-2{enter}');
+
+    expect(onValueChangeSpy.mock.calls[onValueChangeSpy.mock.calls.length - 1][2].tape).toEqual({
+      entries: [
+        { value: '12', formatted: '12' },
+        { value: '-2', formatted: '-2' },
+      ],
+      total: '10',
+      formattedTotal: '10',
+    });
+  });
+
+  it('should ignore empty entries', () => {
+    render(<CurrencyInput tape onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '{enter}');
+
+    expect(onValueChangeSpy).not.toHaveBeenCalled();
+  });
+
+  it('should add each line of a pasted list', () => {
+    render(
+      <CurrencyInput
+        intlConfig={{ locale: 'de-DE', currency: 'EUR' }}
+        tape
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    const paste = fireEvent.paste(screen.getByRole('textbox'), {
+      clipboardData: { getData: () => '1.234,50\n\n20\r\n0,25\n' },
+    });
+
+    expect(paste).toBe(false);
+
+    expect(screen.getByRole('textbox')).toHaveValue('');
+    expect(onValueChangeSpy.mock.calls[onValueChangeSpy.mock.calls.length - 1][2].tape).toEqual({
+      entries: [
+        { value: '1234,50', formatted: '1.234,50\xa0€' },
+        { value: '20', formatted: '20,00\xa0€' },
+        { value: '0,25', formatted: '0,25\xa0€' },
+      ],
+      total: '1254,75',
+      formattedTotal: '1.254,75\xa0€',
+    });
+  });
+
+  it('should not change paste without tape', () => {
+    render(<CurrencyInput onValueChange={onValueChangeSpy} />);
+
+    userEvent.paste(screen.getByRole('textbox'), '12\n34');
+    expect(screen.getByRole('textbox')).toHaveValue('1,234');
+
+    expect(
+      onValueChangeSpy.mock.calls[onValueChangeSpy.mock.calls.length - 1][2]
+    ).not.toHaveProperty('tape');
+  });
+
+  it('should undo the last entry and clear the tape with apiRef', () => {
+    const apiRef = createRef<CurrencyInputApi>();
+    render(<CurrencyInput tape apiRef={apiRef} onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '10{enter}20{enter}7');
+    expect(apiRef.current?.getTape()).toEqual({
+      entries: [
+        { value: '10', formatted: '10' },
+        { value: '20', formatted: '20' },
+      ],
+      total: '30',
+      formattedTotal: '30',
+    });
+
+    act(() => apiRef.current?.undoTapeEntry());
+
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('7', undefined, {
+      float: 7,
+      decimal: '7',
+      formatted: '7',
+      value: '7',
+      tape: { entries: [{ value: '10', formatted: '10' }], total: '10', formattedTotal: '10' },
+    });
+    expect(apiRef.current?.getTape().total).toBe('10');
+
+    act(() => apiRef.current?.clearTape());
+
+    expect(apiRef.current?.getTape()).toEqual({ entries: [], total: '0', formattedTotal: '0' });
+    expect(screen.getByRole('textbox')).toHaveValue('7');
+  });
+
+  it('should not add the entry on Enter without tape', () => {
+    render(<CurrencyInput onValueChange={onValueChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '10{enter}');
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(screen.getByRole('textbox')).toHaveValue('10');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('10', undefined, {
+      float: 10,
+      decimal: '10',
+      formatted: '10',
+      value: '10',
+    });
+  });
+});
@@ -24,6 +24,7 @@ describe('<CurrencyInput/> transformRawValue', () => {
     userEvent.type(screen.getByRole('textbox'), '1234,5');
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('1234.5', undefined, {
       float: 1234.5,
+      decimal: '1234.5',
       formatted: '$1,234.5',
       value: '1234.5',
     });
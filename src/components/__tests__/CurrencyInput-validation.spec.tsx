@@ -0,0 +1,144 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { render, fireEvent, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> validate', () => {
+  const onValidationChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should report errors when the value changes', () => {
+    render(
+      <CurrencyInput
+        name="amount"
+        validate={{ max: 1000, nonZero: true }}
+        onValidationChange={onValidationChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '0');
+
+    expect(onValidationChangeSpy).toHaveBeenLastCalledWith(
+      [{ code: 'nonZero', message: 'Enter a value other than zero', params: {} }],
+      'amount'
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '5000');
+
+    expect(onValidationChangeSpy).toHaveBeenLastCalledWith(
+      [{ code: 'max', message: 'Enter 1000 or less', params: { max: '1000' } }],
+      'amount'
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '{backspace}');
+
+    expect(onValidationChangeSpy).toHaveBeenLastCalledWith([], 'amount');
+  });
+
+  it('should only report changed errors', () => {
+    render(<CurrencyInput validate={{ max: 10 }} onValidationChange={onValidationChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '123');
+
+    expect(onValidationChangeSpy).toHaveBeenCalledTimes(1);
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(onValidationChangeSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should validate required on blur', () => {
+    render(
+      <CurrencyInput
+        validate={{ required: true, messages: { required: 'Montant requis' } }}
+        onValidationChange={onValidationChangeSpy}
+      />
+    );
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(onValidationChangeSpy).toHaveBeenLastCalledWith(
+      [{ code: 'required', message: 'Montant requis', params: {} }],
+      undefined
+    );
+  });
+
+  it('should use min and max of the input', () => {
+    render(<CurrencyInput min={10} validate={{}} onValidationChange={onValidationChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '5');
+
+    expect(onValidationChangeSpy).toHaveBeenLastCalledWith(
+      [{ code: 'min', message: 'Enter 10 or more', params: { min: '10' } }],
+      undefined
+    );
+  });
+
+  it('should validate the value on blur', () => {
+    render(
+      <CurrencyInput
+        decimalScale={2}
+        validate={{ precision: 0, custom: (value) => (value === '7.00' ? 'Not 7' : undefined) }}
+        onValidationChange={onValidationChangeSpy}
+      />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '7');
+
+    expect(onValidationChangeSpy).not.toHaveBeenCalled();
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(onValidationChangeSpy).toHaveBeenLastCalledWith(
+      [{ code: 'custom', message: 'Not 7' }],
+      undefined
+    );
+  });
+
+  it('should validate the result of math expressions', () => {
+    render(<CurrencyInput validate={{ max: 100 }} onValidationChange={onValidationChangeSpy} />);
+
+    userEvent.type(screen.getByRole('textbox'), '60+50');
+
+    expect(onValidationChangeSpy).not.toHaveBeenCalled();
+
+    fireEvent.focusOut(screen.getByRole('textbox'));
+
+    expect(onValidationChangeSpy).toHaveBeenLastCalledWith(
+      [{ code: 'max', message: 'Enter 100 or less', params: { max: '100' } }],
+      undefined
+    );
+  });
+
+  it('should set aria-invalid and aria-errormessage while not valid', () => {
+    render(<CurrencyInput id="amount" validate={{ nonZero: true }} />);
+
+    expect(screen.getByRole('textbox')).not.toHaveAttribute('aria-invalid');
+    expect(screen.getByRole('textbox')).not.toHaveAttribute('aria-errormessage');
+
+    userEvent.type(screen.getByRole('textbox'), '0');
+
+    expect(screen.getByRole('textbox')).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByRole('textbox')).toHaveAttribute('aria-errormessage', 'amount-error');
+
+    userEvent.type(screen.getByRole('textbox'), '1');
+
+    expect(screen.getByRole('textbox')).not.toHaveAttribute('aria-invalid');
+    expect(screen.getByRole('textbox')).not.toHaveAttribute('aria-errormessage');
+  });
+
+  it('should keep aria attributes passed as props', () => {
+    render(
+      <CurrencyInput id="amount" aria-errormessage="amount-message" validate={{ nonZero: true }} />
+    );
+
+    userEvent.type(screen.getByRole('textbox'), '0');
+
+    expect(screen.getByRole('textbox')).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByRole('textbox')).toHaveAttribute('aria-errormessage', 'amount-message');
+  });
+});
@@ -0,0 +1,118 @@
+import React from 'react';
+import '@testing-library/jest-dom';
+import { act, render, fireEvent, screen } from '@testing-library/react';
+import CurrencyInput from '../CurrencyInput';
+
+describe('<CurrencyInput/> wheelStep', () => {
+  const onValueChangeSpy = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const focus = () => act(() => screen.getByRole('textbox').focus());
+
+  it('should step with the wheel while focused', () => {
+    render(
+      <CurrencyInput
+        prefix="£"
+        defaultValue={10}
+        step={1}
+        wheelStep
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    focus();
+
+    expect(fireEvent.wheel(screen.getByRole('textbox'), { deltaY: -100 })).toBe(false);
+    expect(screen.getByRole('textbox')).toHaveValue('£11');
+    expect(onValueChangeSpy).toHaveBeenLastCalledWith('11', undefined, {
+      float: 11,
+      decimal: '11',
+      formatted: '£11',
+      value: '11',
+    });
+
+    fireEvent.wheel(screen.getByRole('textbox'), { deltaY: 100 });
+    fireEvent.wheel(screen.getByRole('textbox'), { deltaY: 100 });
+    expect(screen.getByRole('textbox')).toHaveValue('£9');
+  });
+
+  it('should not step or prevent scrolling when not focused', () => {
+    render(<CurrencyInput defaultValue={10} step={1} wheelStep onValueChange={onValueChangeSpy} />);
+
+    expect(fireEvent.wheel(screen.getByRole('textbox'), { deltaY: -100 })).toBe(true);
+    expect(onValueChangeSpy).not.toHaveBeenCalled();
+  });
+
+  it('should not step without wheelStep', () => {
+    render(<CurrencyInput defaultValue={10} step={1} onValueChange={onValueChangeSpy} />);
+
+    focus();
+
+    expect(fireEvent.wheel(screen.getByRole('textbox'), { deltaY: -100 })).toBe(true);
+    expect(onValueChangeSpy).not.toHaveBeenCalled();
+  });
+
+  it('should leave pinch-zoom and horizontal scrolling to the browser', () => {
+    render(<CurrencyInput defaultValue={10} step={1} wheelStep onValueChange={onValueChangeSpy} />);
+
+    focus();
+
+    expect(fireEvent.wheel(screen.getByRole('textbox'), { deltaY: -100, ctrlKey: true })).toBe(
+      true
+    );
+    expect(fireEvent.wheel(screen.getByRole('textbox'), { deltaX: -100 })).toBe(true);
+    expect(onValueChangeSpy).not.toHaveBeenCalled();
+  });
+
+  it('should multiply the step with Shift and Alt', () => {
+    render(
+      <CurrencyInput
+        defaultValue={10}
+        step={1}
+        stepMultipliers={{ shift: 5 }}
+        wheelStep
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    focus();
+
+    fireEvent.wheel(screen.getByRole('textbox'), { deltaY: -100, shiftKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('15');
+
+    // Shift turns the wheel into horizontal scrolling on some platforms
+    fireEvent.wheel(screen.getByRole('textbox'), { deltaX: 100, shiftKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('10');
+
+    fireEvent.wheel(screen.getByRole('textbox'), { deltaY: -100, altKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('10.1');
+  });
+
+  it('should not step past min and max', () => {
+    render(
+      <CurrencyInput
+        defaultValue={9}
+        step={1}
+        min={0}
+        max={10}
+        wheelStep
+        onValueChange={onValueChangeSpy}
+      />
+    );
+
+    focus();
+
+    fireEvent.wheel(screen.getByRole('textbox'), { deltaY: -100, shiftKey: true });
+    expect(screen.getByRole('textbox')).toHaveValue('9');
+
+    fireEvent.wheel(screen.getByRole('textbox'), { deltaY: -100 });
+    expect(screen.getByRole('textbox')).toHaveValue('10');
+
+    expect(fireEvent.wheel(screen.getByRole('textbox'), { deltaY: -100 })).toBe(false);
+    expect(screen.getByRole('textbox')).toHaveValue('10');
+    expect(onValueChangeSpy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -116,6 +116,7 @@ describe('<CurrencyInput/>', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('100', undefined, {
       float: 100,
+      decimal: '100',
       formatted: '£100',
       value: '100',
     });
@@ -133,6 +134,7 @@ describe('<CurrencyInput/>', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('0', undefined, {
       float: 0,
+      decimal: '0',
       formatted: '£0',
       value: '0',
     });
@@ -146,6 +148,7 @@ describe('<CurrencyInput/>', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
       float: null,
+      decimal: '',
       formatted: '',
       value: '',
     });
@@ -160,6 +163,7 @@ describe('<CurrencyInput/>', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('123', name, {
       float: 123,
+      decimal: '123',
       formatted: '£123',
       value: '123',
     });
@@ -171,6 +175,7 @@ describe('<CurrencyInput/>', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
       float: null,
+      decimal: '',
       formatted: '',
       value: '',
     });
@@ -184,6 +189,7 @@ describe('<CurrencyInput/>', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('123', undefined, {
       float: 123,
+      decimal: '123',
       formatted: '£123',
       value: '123',
     });
@@ -197,6 +203,7 @@ describe('<CurrencyInput/>', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith(undefined, undefined, {
       float: null,
+      decimal: '',
       formatted: '',
       value: '',
     });
@@ -211,6 +218,7 @@ describe('<CurrencyInput/>', () => {
 
     expect(onValueChangeSpy).toHaveBeenLastCalledWith('.3', undefined, {
       float: 0.3,
+      decimal: '.3',
       formatted: '£0.3',
       value: '.3',
     });
@@ -0,0 +1,38 @@
+import { clampValue, getOutOfRange } from '../checkRange';
+
+describe('checkRange', () => {
+  describe('getOutOfRange', () => {
+    it('should return the bound the value is past', () => {
+      expect(getOutOfRange('1000.01', 0, 1000)).toBe('max');
+      expect(getOutOfRange('-0.5', 0, 1000)).toBe('min');
+      expect(getOutOfRange('500', 0, 1000)).toBeUndefined();
+      expect(getOutOfRange('1000', 0, 1000)).toBeUndefined();
+    });
+
+    it('should ignore missing bounds and empty values', () => {
+      expect(getOutOfRange('1000000')).toBeUndefined();
+      expect(getOutOfRange('-1000000', undefined, 10)).toBeUndefined();
+      expect(getOutOfRange('', 1, 10)).toBeUndefined();
+      expect(getOutOfRange('-', 1, 10)).toBeUndefined();
+    });
+
+    it('should compare decimal strings beyond float precision exactly', () => {
+      expect(getOutOfRange('12345678901234567.891', undefined, '12345678901234567.89')).toBe('max');
+      expect(getOutOfRange('0.30000000000000001', '0.3')).toBeUndefined();
+      expect(getOutOfRange('0.29999999999999999', '0.3')).toBe('min');
+    });
+  });
+
+  describe('clampValue', () => {
+    it('should limit the value to the bounds', () => {
+      expect(clampValue('1000.01', 0, 1000)).toBe('1000');
+      expect(clampValue('-5', '-2.5', 10)).toBe('-2.5');
+      expect(clampValue('5', 0, 10)).toBe('5');
+    });
+
+    it('should return the value as is without bounds', () => {
+      expect(clampValue('5.10')).toBe('5.10');
+      expect(clampValue('')).toBe('');
+    });
+  });
+});
@@ -297,4 +297,84 @@ describe('cleanValue', () => {
       ).toEqual('9');
     });
   });
+
+  describe('roundingMode', () => {
+    it('should round decimals past decimalsLimit', () => {
+      expect(cleanValue({ value: '1.239', decimalsLimit: 2, roundingMode: 'halfExpand' })).toEqual(
+        '1.24'
+      );
+      expect(cleanValue({ value: '$-1.231', prefix: '$', roundingMode: 'floor' })).toEqual('-1.24');
+      expect(
+        cleanValue({
+          value: '1.234.567,995',
+          decimalSeparator: ',',
+          groupSeparator: '.',
+          roundingMode: 'halfExpand',
+        })
+      ).toEqual('1234568,00');
+    });
+
+    it('should keep decimals within decimalsLimit', () => {
+      expect(cleanValue({ value: '1.2', decimalsLimit: 2, roundingMode: 'ceil' })).toEqual('1.2');
+      expect(cleanValue({ value: '1.', decimalsLimit: 2, roundingMode: 'ceil' })).toEqual('1.');
+    });
+  });
+
+  describe('significantDigits', () => {
+    it('should limit decimals to the maximum significant digits', () => {
+      expect(
+        cleanValue({ value: '0.0012345678', decimalsLimit: 20, significantDigits: { max: 5 } })
+      ).toEqual('0.0012345');
+      expect(cleanValue({ value: '1234.5678', decimalsLimit: 20, significantDigits: 5 })).toEqual(
+        '1234.5'
+      );
+      expect(cleanValue({ value: '123456.7', decimalsLimit: 20, significantDigits: 5 })).toEqual(
+        '123456.'
+      );
+    });
+
+    it('should not limit leading zeros', () => {
+      expect(cleanValue({ value: '0.0000', decimalsLimit: 20, significantDigits: 2 })).toEqual(
+        '0.0000'
+      );
+    });
+
+    it('should respect decimalsLimit and roundingMode', () => {
+      expect(cleanValue({ value: '0.0012345', decimalsLimit: 4, significantDigits: 5 })).toEqual(
+        '0.0012'
+      );
+      expect(
+        cleanValue({
+          value: '0.0012345678',
+          decimalsLimit: 20,
+          significantDigits: 5,
+          roundingMode: 'halfExpand',
+        })
+      ).toEqual('0.0012346');
+    });
+  });
+
+  describe('allowExponentNotation', () => {
+    it('should expand exponent notation', () => {
+      expect(
+        cleanValue({ value: '1.2e-7', decimalsLimit: 10, allowExponentNotation: true })
+      ).toEqual('0.00000012');
+      expect(cleanValue({ value: '$3E9', prefix: '$', allowExponentNotation: true })).toEqual(
+        '3000000000'
+      );
+      expect(
+        cleanValue({
+          value: '-1,5e-3',
+          decimalSeparator: ',',
+          groupSeparator: '.',
+          decimalsLimit: 4,
+          allowExponentNotation: true,
+        })
+      ).toEqual('-0,0015');
+    });
+
+    it('should limit the expanded decimals to decimalsLimit', () => {
+      expect(cleanValue({ value: '1.2345e-1', allowExponentNotation: true })).toEqual('0.12');
+    });
+  });
 });
@@ -0,0 +1,561 @@
+import {
+  EvaluateMathExpressionResultOptions,
+  evaluateMathExpression,
+  evaluateMathExpressionDecimal,
+  evaluateMathExpressionSimple,
+  mathExpressionFunctions,
+} from '../evaluate-math-expression-simple';
+import { parseAbbrValue } from '../parseAbbrValue';
+
+describe('evaluateMathExpressionSimple', () => {
+  it('should evaluate basic operators', () => {
+    expect(evaluateMathExpressionSimple('2 + 2')).toEqual(4);
+    expect(evaluateMathExpressionSimple('10 - 4')).toEqual(6);
+    expect(evaluateMathExpressionSimple('3 * 4')).toEqual(12);
+    expect(evaluateMathExpressionSimple('10 / 4')).toEqual(2.5);
+  });
+
+  it('should respect precedence and parentheses', () => {
+    expect(evaluateMathExpressionSimple('2 + 3 * 4')).toEqual(14);
+    expect(evaluateMathExpressionSimple('10 * (5 + 3)')).toEqual(80);
+    expect(evaluateMathExpressionSimple('-(2 + 3)')).toEqual(-5);
+  });
+
+  it('should evaluate percentages', () => {
+    expect(evaluateMathExpressionSimple('10%')).toEqual(0.1);
+    expect(evaluateMathExpressionSimple('100 * 50%')).toEqual(50);
+  });
+
+  it('should return undefined for invalid expressions', () => {
+    expect(evaluateMathExpressionSimple('')).toBeUndefined();
+    expect(evaluateMathExpressionSimple('2 +')).toBeUndefined();
+    expect(evaluateMathExpressionSimple('(2 + 3')).toBeUndefined();
+    expect(evaluateMathExpressionSimple('2 $ 3')).toBeUndefined();
+    expect(evaluateMathExpressionSimple('1 / 0')).toBeUndefined();
+    expect(evaluateMathExpressionSimple('1+'.repeat(100) + '1')).toBeUndefined();
+  });
+
+  describe('variables', () => {
+    const variables = { subtotal: 200, qty: 3, unit_price: 12.5 };
+
+    it('should resolve variables', () => {
+      expect(evaluateMathExpressionSimple('subtotal * 8%', { variables })).toEqual(16);
+      expect(evaluateMathExpressionSimple('qty * 12.5', { variables })).toEqual(37.5);
+      expect(evaluateMathExpressionSimple('qty * unit_price + 1', { variables })).toEqual(38.5);
+      expect(evaluateMathExpressionSimple('-(subtotal)', { variables })).toEqual(-200);
+    });
+
+    it('should return undefined for unknown variables', () => {
+      expect(evaluateMathExpressionSimple('total * 2', { variables })).toBeUndefined();
+      expect(evaluateMathExpressionSimple('qty * 2')).toBeUndefined();
+    });
+
+    it('should not resolve inherited object properties', () => {
+      expect(evaluateMathExpressionSimple('constructor + 1', { variables })).toBeUndefined();
+      expect(evaluateMathExpressionSimple('toString', { variables })).toBeUndefined();
+    });
+
+    it('should return undefined for non finite variables', () => {
+      expect(
+        evaluateMathExpressionSimple('amount + 1', { variables: { amount: Infinity } })
+      ).toBeUndefined();
+      expect(
+        evaluateMathExpressionSimple('amount + 1', { variables: { amount: NaN } })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('exponentiation', () => {
+    it('should evaluate powers', () => {
+      expect(evaluateMathExpressionSimple('2^10')).toEqual(1024);
+      expect(evaluateMathExpressionSimple('2^-1')).toEqual(0.5);
+      expect(evaluateMathExpressionSimple('(1 + 1)^3')).toEqual(8);
+    });
+
+    it('should be right-associative', () => {
+      expect(evaluateMathExpressionSimple('2^3^2')).toEqual(512);
+    });
+
+    it('should bind tighter than unary minus and multiplication', () => {
+      expect(evaluateMathExpressionSimple('-2^2')).toEqual(-4);
+      expect(evaluateMathExpressionSimple('3 * 2^2')).toEqual(12);
+    });
+
+    it('should return undefined for non finite results', () => {
+      expect(evaluateMathExpressionSimple('(-8)^0.5')).toBeUndefined();
+      expect(evaluateMathExpressionSimple('10^400')).toBeUndefined();
+    });
+  });
+
+  describe('functions', () => {
+    it('should evaluate built-in functions', () => {
+      expect(evaluateMathExpressionSimple('round(1234.567, 2)')).toEqual(1234.57);
+      expect(evaluateMathExpressionSimple('round(2.5)')).toEqual(3);
+      expect(evaluateMathExpressionSimple('round(-2.5)')).toEqual(-3);
+      expect(evaluateMathExpressionSimple('round(1.005, 2)')).toEqual(1.01);
+      expect(evaluateMathExpressionSimple('min(4, 2, 8)')).toEqual(2);
+      expect(evaluateMathExpressionSimple('max(4, 2, 8)')).toEqual(8);
+      expect(evaluateMathExpressionSimple('abs(-5)')).toEqual(5);
+    });
+
+    it('should evaluate nested calls and expressions as arguments', () => {
+      expect(evaluateMathExpressionSimple('max(1 + 1, min(10, 3 * 2)) * 2')).toEqual(12);
+      expect(evaluateMathExpressionSimple('-abs(-2)^2')).toEqual(-4);
+    });
+
+    it('should use variables as arguments', () => {
+      expect(evaluateMathExpressionSimple('max(a, b)', { variables: { a: 10, b: 20 } })).toEqual(
+        20
+      );
+    });
+
+    it('should return undefined for wrong number of arguments', () => {
+      expect(evaluateMathExpressionSimple('abs()')).toBeUndefined();
+      expect(evaluateMathExpressionSimple('abs(1, 2)')).toBeUndefined();
+      expect(evaluateMathExpressionSimple('round(1, 2, 3)')).toBeUndefined();
+      expect(evaluateMathExpressionSimple('round(1.5, 0.5)')).toBeUndefined();
+      expect(evaluateMathExpressionSimple('max()')).toBeUndefined();
+    });
+
+    it('should return undefined for malformed calls', () => {
+      expect(evaluateMathExpressionSimple('max(1, 2')).toBeUndefined();
+      expect(evaluateMathExpressionSimple('max(1,, 2)')).toBeUndefined();
+      expect(evaluateMathExpressionSimple('1, 2')).toBeUndefined();
+    });
+
+    it('should return undefined for unknown functions', () => {
+      expect(evaluateMathExpressionSimple('sqrt(4)')).toBeUndefined();
+      expect(evaluateMathExpressionSimple('constructor(4)')).toBeUndefined();
+    });
+
+    it('should use custom functions', () => {
+      const functions = { tax: (amount: number) => amount * 0.2, double: (n: number) => n * 2 };
+
+      expect(evaluateMathExpressionSimple('tax(120)', { functions })).toEqual(24);
+      expect(evaluateMathExpressionSimple('double(tax(100)) + 1', { functions })).toEqual(41);
+      expect(evaluateMathExpressionSimple('round(1.25, 1)', { functions })).toEqual(1.3);
+    });
+
+    it('should allow overriding built-in functions', () => {
+      const functions = { round: (value: number) => Math.floor(value) };
+
+      expect(evaluateMathExpressionSimple('round(2.9)', { functions })).toEqual(2);
+      expect(mathExpressionFunctions.round(2.9)).toEqual(3);
+    });
+
+    it('should return undefined if a custom function throws', () => {
+      const functions = {
+        fail: () => {
+          throw new Error('fail');
+        },
+      };
+
+      expect(evaluateMathExpressionSimple('fail()', { functions })).toBeUndefined();
+    });
+  });
+
+  describe('locale formatted numbers', () => {
+    it('should read decimal and group separators', () => {
+      const options = { decimalSeparator: ',', groupSeparator: '.' };
+
+      expect(evaluateMathExpressionSimple('1.234,5 + 2,5', options)).toEqual(1237);
+      expect(evaluateMathExpressionSimple('1.234.567 * 2', options)).toEqual(2469134);
+      expect(evaluateMathExpressionSimple(',5 * 4', options)).toEqual(2);
+    });
+
+    it('should only read group separators between groups of three digits', () => {
+      const options = { decimalSeparator: '.', groupSeparator: ',' };
+
+      expect(evaluateMathExpressionSimple('1,234.5 + 1', options)).toEqual(1235.5);
+      expect(evaluateMathExpressionSimple('max(1,2)', options)).toEqual(2);
+      expect(evaluateMathExpressionSimple('1,23 + 1', options)).toBeUndefined();
+      expect(evaluateMathExpressionSimple('1.234,567', options)).toBeUndefined();
+    });
+
+    it('should separate function arguments with ; when decimal separator is ,', () => {
+      const options = { decimalSeparator: ',', groupSeparator: '.' };
+
+      expect(evaluateMathExpressionSimple('max(1,5; 2,5)', options)).toEqual(2.5);
+      expect(evaluateMathExpressionSimple('round(1.234,567; 2)', options)).toEqual(1234.57);
+      expect(evaluateMathExpressionSimple('max(1, 2)', options)).toBeUndefined();
+    });
+
+    it('should read multi-character and regex special separators', () => {
+      expect(
+        evaluateMathExpressionSimple('1**000$5 + 1', {
+          decimalSeparator: '$',
+          groupSeparator: '**',
+        })
+      ).toEqual(1001.5);
+      expect(
+        evaluateMathExpressionSimple("1'234.5 * 2", { decimalSeparator: '.', groupSeparator: "'" })
+      ).toEqual(2469);
+      expect(
+        evaluateMathExpressionSimple('1\u202f234,5 - 0,5', {
+          decimalSeparator: ',',
+          groupSeparator: '\u202f',
+        })
+      ).toEqual(1234);
+    });
+
+    it('should not read a second decimal separator', () => {
+      expect(evaluateMathExpressionSimple('1.2.3 + 1')).toBeUndefined();
+    });
+
+    it('should ignore prefix and suffix', () => {
+      expect(
+        evaluateMathExpressionSimple('$1,000 * 2', { prefix: '$', groupSeparator: ',' })
+      ).toEqual(2000);
+      expect(
+        evaluateMathExpressionSimple('1.000,5 + 2 €', {
+          decimalSeparator: ',',
+          groupSeparator: '.',
+          suffix: '€',
+        })
+      ).toEqual(1002.5);
+      expect(evaluateMathExpressionSimple('$(1 + 2)', { prefix: '$' })).toEqual(3);
+      expect(evaluateMathExpressionSimple('$(1 + 2)')).toBeUndefined();
+    });
+  });
+
+  describe('Unicode operators', () => {
+    it('should evaluate ×, ÷ and −', () => {
+      expect(evaluateMathExpressionSimple('3 × 4')).toEqual(12);
+      expect(evaluateMathExpressionSimple('10 ÷ 4')).toEqual(2.5);
+      expect(evaluateMathExpressionSimple('10 − 4')).toEqual(6);
+      expect(evaluateMathExpressionSimple('−5 × −2')).toEqual(10);
+      expect(evaluateMathExpressionSimple('2 × 3 − 10 ÷ 5 + 1')).toEqual(5);
+    });
+
+    it('should report errors at the Unicode operator', () => {
+      expect(evaluateMathExpression('1 ÷ 0')).toEqual({
+        ok: false,
+        error: { code: 'DIVISION_BY_ZERO', message: 'Division by zero', offset: 2 },
+      });
+    });
+  });
+
+  describe('implicit multiplication', () => {
+    it('should multiply a number or parentheses followed by parentheses', () => {
+      expect(evaluateMathExpressionSimple('2(3 + 4)')).toEqual(14);
+      expect(evaluateMathExpressionSimple('2 (3 + 4)')).toEqual(14);
+      expect(evaluateMathExpressionSimple('(1 + 2)(3 + 4)')).toEqual(21);
+      expect(evaluateMathExpressionSimple('1.5k(2)')).toEqual(3000);
+      expect(evaluateMathExpressionSimple('-2(3)')).toEqual(-6);
+    });
+
+    it('should multiply with the same precedence as *', () => {
+      expect(evaluateMathExpressionSimple('1 + 2(3)')).toEqual(7);
+      expect(evaluateMathExpressionSimple('12 / 2(3)')).toEqual(18);
+      expect(evaluateMathExpressionSimple('2(3)^2')).toEqual(18);
+    });
+
+    it('should still call functions', () => {
+      expect(evaluateMathExpressionSimple('2max(1, 3)')).toBeUndefined();
+      expect(evaluateMathExpressionSimple('2 * max(1, 3)')).toEqual(6);
+      expect(evaluateMathExpressionSimple('x(2)', { variables: { x: 3 } })).toBeUndefined();
+    });
+  });
+
+  describe('abbreviations', () => {
+    it('should read abbreviated numbers', () => {
+      expect(evaluateMathExpressionSimple('1.5k * 3')).toEqual(4500);
+      expect(evaluateMathExpressionSimple('2M - 500k')).toEqual(1500000);
+      expect(evaluateMathExpressionSimple('1b / 4')).toEqual(250000000);
+      expect(evaluateMathExpressionSimple('max(1k, 2k)')).toEqual(2000);
+      expect(evaluateMathExpressionSimple('1,5k * 2', { decimalSeparator: ',' })).toEqual(3000);
+    });
+
+    it('should read abbreviations the same as parseAbbrValue', () => {
+      ['1k', '1.k', '1.1239999k', '50.12K', '2.5m', '0.001b'].forEach((value) => {
+        expect(evaluateMathExpressionSimple(`${value} + 0`)).toEqual(parseAbbrValue(value));
+      });
+    });
+
+    it('should not read abbreviations followed by other letters', () => {
+      expect(evaluateMathExpressionSimple('2kg * 3')).toBeUndefined();
+      expect(evaluateMathExpressionSimple('2 * max(1, 2)')).toEqual(4);
+    });
+
+    it('should not read abbreviations if disabled', () => {
+      expect(evaluateMathExpressionSimple('1.5k * 3', { abbreviations: false })).toBeUndefined();
+    });
+  });
+
+  describe('prefix and suffix of each number', () => {
+    it('should read the prefix before each number', () => {
+      expect(evaluateMathExpressionSimple('$20 + $5.50', { prefix: '$' })).toEqual(25.5);
+      expect(evaluateMathExpressionSimple('$1.5k * 3', { prefix: '$' })).toEqual(4500);
+      expect(evaluateMathExpressionSimple('-$20 + $5', { prefix: '$' })).toEqual(-15);
+      expect(evaluateMathExpressionSimple('US$ 20 + US$ 5', { prefix: 'US$ ' })).toEqual(25);
+      expect(evaluateMathExpressionSimple('$20 + $5')).toBeUndefined();
+    });
+
+    it('should read the suffix after each number', () => {
+      const options = { decimalSeparator: ',', groupSeparator: '.', suffix: ' €' };
+      expect(evaluateMathExpressionSimple('20 € + 5,50 €', options)).toEqual(25.5);
+      expect(evaluateMathExpressionSimple('20€ + 5,50€', options)).toEqual(25.5);
+      expect(evaluateMathExpressionSimple('1.000 € * 2', options)).toEqual(2000);
+    });
+
+    it('should not read a prefix or suffix that is not next to a number', () => {
+      expect(evaluateMathExpressionSimple('20 + $', { prefix: '$' })).toBeUndefined();
+      expect(evaluateMathExpressionSimple('20 + $ * 2', { prefix: '$' })).toBeUndefined();
+      expect(evaluateMathExpressionSimple('20 + € 5', { suffix: '€' })).toBeUndefined();
+    });
+  });
+
+  describe('percentage mode', () => {
+    it('should divide percentages by 100 by default', () => {
+      expect(evaluateMathExpressionSimple('200 + 10%')).toEqual(200.1);
+      expect(evaluateMathExpressionSimple('200 - 10%')).toEqual(199.9);
+      expect(evaluateMathExpressionSimple('200 + 10%', { percentageMode: 'fraction' })).toEqual(
+        200.1
+      );
+    });
+
+    describe('calculator', () => {
+      const options = { percentageMode: 'calculator' } as const;
+
+      it('should apply the percentage to the left operand of + and -', () => {
+        expect(evaluateMathExpressionSimple('200 + 10%', options)).toEqual(220);
+        expect(evaluateMathExpressionSimple('200 - 10%', options)).toEqual(180);
+        expect(evaluateMathExpressionSimple('200 - 10% + 5%', options)).toEqual(189);
+        expect(evaluateMathExpressionSimple('100 + 10 + 50%', options)).toEqual(165);
+        expect(evaluateMathExpressionSimple('(100 + 10) * 2 + 50%', options)).toEqual(330);
+      });
+
+      it('should divide other percentages by 100', () => {
+        expect(evaluateMathExpressionSimple('10%', options)).toEqual(0.1);
+        expect(evaluateMathExpressionSimple('200 * 10%', options)).toEqual(20);
+        expect(evaluateMathExpressionSimple('200 / 50%', options)).toEqual(400);
+        expect(evaluateMathExpressionSimple('200 + 2 * 10%', options)).toEqual(200.2);
+        expect(evaluateMathExpressionSimple('200 + (10%)', options)).toEqual(200.1);
+      });
+
+      it('should apply percentages inside parentheses and function arguments', () => {
+        expect(evaluateMathExpressionSimple('(200 + 10%) * 2', options)).toEqual(440);
+        expect(evaluateMathExpressionSimple('round(19.99 + 15%, 2)', options)).toEqual(22.99);
+      });
+    });
+  });
+});
+
+describe('evaluateMathExpressionDecimal', () => {
+  it('should calculate exactly', () => {
+    expect(evaluateMathExpressionSimple('0.1 + 0.2')).toEqual(0.30000000000000004);
+    expect(evaluateMathExpressionDecimal('0.1 + 0.2')).toEqual('0.3');
+    expect(evaluateMathExpressionDecimal('1.1 * 1.1')).toEqual('1.21');
+    expect(evaluateMathExpressionDecimal('0.3 - 0.1')).toEqual('0.2');
+    expect(evaluateMathExpressionDecimal('1.15 * 100')).toEqual('115');
+    expect(evaluateMathExpressionDecimal('19.99 * 3 + 10%')).toEqual('60.07');
+  });
+
+  it('should calculate abbreviated numbers exactly', () => {
+    expect(evaluateMathExpressionDecimal('1.1239999k * 3')).toEqual('3371.9997');
+    expect(evaluateMathExpressionDecimal('0.1k + 0.2k')).toEqual('300');
+  });
+
+  it('should calculate calculator percentages exactly', () => {
+    const options = { percentageMode: 'calculator' } as const;
+    expect(evaluateMathExpressionDecimal('19.99 + 15%', options)).toEqual('22.9885');
+    expect(evaluateMathExpressionDecimal('0.3 - 10%', options)).toEqual('0.27');
+  });
+
+  it('should calculate large values exactly', () => {
+    expect(evaluateMathExpressionDecimal('9007199254740993 + 1')).toEqual('9007199254740994');
+    expect(evaluateMathExpressionDecimal('2^70')).toEqual('1180591620717411303424');
+  });
+
+  it('should write terminating divisions exactly', () => {
+    expect(evaluateMathExpressionDecimal('1 / 8')).toEqual('0.125');
+    expect(evaluateMathExpressionDecimal('1 / 3 * 3')).toEqual('1');
+    expect(evaluateMathExpressionDecimal('0.1^25')).toEqual(`0.${'0'.repeat(24)}1`);
+  });
+
+  it('should round non terminating divisions to divisionPrecision', () => {
+    expect(evaluateMathExpressionDecimal('10 / 3')).toEqual('3.33333333333333333333');
+    expect(evaluateMathExpressionDecimal('10 / 3', { divisionPrecision: 2 })).toEqual('3.33');
+    expect(evaluateMathExpressionDecimal('20 / 3', { divisionPrecision: 2 })).toEqual('6.67');
+    expect(evaluateMathExpressionDecimal('-20 / 3', { divisionPrecision: 0 })).toEqual('-7');
+  });
+
+  it('should use roundingMode', () => {
+    expect(
+      evaluateMathExpressionDecimal('20 / 3', { divisionPrecision: 2, roundingMode: 'trunc' })
+    ).toEqual('6.66');
+    expect(
+      evaluateMathExpressionDecimal('1 / 3', { divisionPrecision: 2, roundingMode: 'ceil' })
+    ).toEqual('0.34');
+  });
+
+  it('should evaluate built-in functions exactly', () => {
+    expect(evaluateMathExpressionDecimal('round(1.005, 2)')).toEqual('1.01');
+    expect(evaluateMathExpressionDecimal('round(-2.5)')).toEqual('-3');
+    expect(evaluateMathExpressionDecimal('max(0.1 + 0.2, 0.3)')).toEqual('0.3');
+    expect(evaluateMathExpressionDecimal('min(1 / 3, 0.3)')).toEqual('0.3');
+    expect(evaluateMathExpressionDecimal('abs(0.1 - 0.3)')).toEqual('0.2');
+    expect(evaluateMathExpressionDecimal('round(1, 0.5)')).toBeUndefined();
+  });
+
+  it('should evaluate variables and custom functions', () => {
+    expect(
+      evaluateMathExpressionDecimal('subtotal * 8%', { variables: { subtotal: 19.99 } })
+    ).toEqual('1.5992');
+    expect(
+      evaluateMathExpressionDecimal('double(0.1) + 0.1', { functions: { double: (n) => n * 2 } })
+    ).toEqual('0.3');
+  });
+
+  it('should evaluate powers', () => {
+    expect(evaluateMathExpressionDecimal('1.1^2')).toEqual('1.21');
+    expect(evaluateMathExpressionDecimal('2^-2')).toEqual('0.25');
+    expect(evaluateMathExpressionDecimal('4^0.5')).toEqual('2');
+    // Too large to calculate exactly, falls back to floats
+    expect(evaluateMathExpressionDecimal('1.0001^5000')).toEqual(String(Math.pow(1.0001, 5000)));
+  });
+
+  it('should calculate exactly beyond the range of floats', () => {
+    expect(evaluateMathExpressionDecimal('(1/3)^999 * 3^999')).toEqual('1');
+    expect(evaluateMathExpressionDecimal('3^999')).toEqual((3n ** 999n).toString());
+  });
+
+  it('should return undefined for invalid expressions', () => {
+    expect(evaluateMathExpressionDecimal('1 / 0')).toBeUndefined();
+    expect(evaluateMathExpressionDecimal('0^-1')).toBeUndefined();
+    expect(evaluateMathExpressionDecimal('10^2000')).toBeUndefined();
+    expect(evaluateMathExpressionDecimal('9^9^9')).toBeUndefined();
+    expect(evaluateMathExpressionDecimal('(-8)^0.5')).toBeUndefined();
+    expect(evaluateMathExpressionDecimal('2 +')).toBeUndefined();
+  });
+
+  it('should read locale formatted numbers', () => {
+    expect(
+      evaluateMathExpressionDecimal('1.234,1 + 0,2', { decimalSeparator: ',', groupSeparator: '.' })
+    ).toEqual('1234.3');
+  });
+});
+
+describe('evaluateMathExpression', () => {
+  const errorOf = (expr: string, options?: EvaluateMathExpressionResultOptions) => {
+    const result = evaluateMathExpression(expr, options);
+    return result.ok ? undefined : result.error;
+  };
+
+  it('should return the result of valid expressions', () => {
+    expect(evaluateMathExpression('10 / 4')).toEqual({ ok: true, value: '2.5' });
+    expect(evaluateMathExpression('10 / 3', { divisionPrecision: 2 })).toEqual({
+      ok: true,
+      value: '3.33',
+    });
+    expect(evaluateMathExpression('0.1 + 0.2', { arithmetic: 'float' })).toEqual({
+      ok: true,
+      value: '0.30000000000000004',
+    });
+    expect(evaluateMathExpression('10^21', { arithmetic: 'float' })).toEqual({
+      ok: true,
+      value: '1000000000000000000000',
+    });
+  });
+
+  it('should report the code, message and offset of errors', () => {
+    expect(evaluateMathExpression('2 * (3 + 4')).toEqual({
+      ok: false,
+      error: { code: 'MISSING_PARENTHESIS', message: 'Missing closing parenthesis', offset: 4 },
+    });
+  });
+
+  it('should report empty and too long expressions', () => {
+    expect(errorOf('  ')).toMatchObject({ code: 'EMPTY', offset: 0 });
+    expect(errorOf('$', { prefix: '$' })).toMatchObject({ code: 'EMPTY' });
+    expect(errorOf(` ${'1+'.repeat(100)}1`)).toMatchObject({ code: 'TOO_LONG', offset: 201 });
+  });
+
+  it('should report expressions longer than maxLength', () => {
+    expect(errorOf('1 + 2 + 3', { maxLength: 5 })).toMatchObject({ code: 'TOO_LONG', offset: 5 });
+    expect(evaluateMathExpression('1 + 2', { maxLength: 5 })).toEqual({ ok: true, value: '3' });
+  });
+
+  it('should report operators that are not allowed', () => {
+    expect(errorOf('2 + 3 * 4', { operators: ['+', '-'] })).toEqual({
+      code: 'OPERATOR_NOT_ALLOWED',
+      message: 'Operator "*" is not allowed',
+      offset: 6,
+    });
+    expect(errorOf('2 × 3', { operators: ['+'] })).toMatchObject({
+      code: 'OPERATOR_NOT_ALLOWED',
+      offset: 2,
+    });
+    expect(errorOf('2(3 + 4)', { operators: ['+'] })).toMatchObject({
+      code: 'OPERATOR_NOT_ALLOWED',
+      offset: 1,
+    });
+    expect(evaluateMathExpression('2 + 3 - 4', { operators: ['+', '-'] })).toEqual({
+      ok: true,
+      value: '1',
+    });
+  });
+
+  it('should report invalid characters', () => {
+    expect(errorOf('2 + 3 & 4')).toMatchObject({ code: 'INVALID_CHARACTER', offset: 6 });
+    expect(errorOf('2 + 3!')).toMatchObject({ code: 'INVALID_CHARACTER', offset: 5 });
+  });
+
+  it('should report syntax errors', () => {
+    expect(errorOf('2 * / 3')).toMatchObject({ code: 'UNEXPECTED_TOKEN', offset: 4 });
+    expect(errorOf('2 3')).toMatchObject({ code: 'UNEXPECTED_TOKEN', offset: 2 });
+    expect(errorOf('(2 + 3))')).toMatchObject({ code: 'UNEXPECTED_TOKEN', offset: 7 });
+    expect(errorOf('(2 3)')).toMatchObject({ code: 'UNEXPECTED_TOKEN', offset: 3 });
+    expect(errorOf('2 *  ')).toMatchObject({ code: 'UNEXPECTED_END', offset: 3 });
+    expect(errorOf('max(1, 2')).toMatchObject({ code: 'MISSING_PARENTHESIS', offset: 3 });
+  });
+
+  it('should report unknown names and invalid arguments', () => {
+    expect(errorOf('1 + foo')).toMatchObject({
+      code: 'UNKNOWN_VARIABLE',
+      message: 'Unknown variable "foo"',
+      offset: 4,
+    });
+    expect(errorOf('1 + foo(2)')).toMatchObject({ code: 'UNKNOWN_FUNCTION', offset: 4 });
+    expect(errorOf('1 + abs(1, 2)')).toMatchObject({ code: 'INVALID_ARGUMENTS', offset: 4 });
+    expect(errorOf('round(1.5, -1)')).toMatchObject({ code: 'INVALID_ARGUMENTS', offset: 0 });
+    expect(errorOf('x', { variables: { x: Infinity } })).toMatchObject({ code: 'NOT_FINITE' });
+  });
+
+  it('should report errors thrown by custom functions', () => {
+    const functions = {
+      fail: () => {
+        throw new Error('Not available');
+      },
+    };
+    expect(errorOf('2 * fail()', { functions })).toEqual({
+      code: 'FUNCTION_ERROR',
+      message: 'Function "fail" failed: Not available',
+      offset: 4,
+    });
+    expect(errorOf('2 * nan()', { functions: { nan: () => NaN } })).toMatchObject({
+      code: 'NOT_FINITE',
+      offset: 4,
+    });
+  });
+
+  it('should report calculation errors at the operator', () => {
+    expect(errorOf('1 + 1 / 0')).toMatchObject({ code: 'DIVISION_BY_ZERO', offset: 6 });
+    expect(errorOf('1 / (2 - 2)', { arithmetic: 'float' })).toMatchObject({
+      code: 'DIVISION_BY_ZERO',
+      offset: 2,
+    });
+    expect(errorOf('0^-1')).toMatchObject({ code: 'DIVISION_BY_ZERO', offset: 1 });
+    expect(errorOf('1 + 10^2000')).toMatchObject({ code: 'NOT_FINITE', offset: 6 });
+    expect(errorOf('1 + 10^400', { arithmetic: 'float' })).toMatchObject({
+      code: 'NOT_FINITE',
+      offset: 6,
+    });
+    expect(errorOf('(-8)^0.5')).toMatchObject({ code: 'NOT_FINITE', offset: 4 });
+  });
+
+  it('should report offsets in the expression including the prefix and suffix', () => {
+    expect(errorOf('$2 * * 3', { prefix: '$' })).toMatchObject({ offset: 5 });
+    expect(errorOf('2 * * 3 €', { suffix: ' €' })).toMatchObject({ offset: 4 });
+  });
+});
@@ -0,0 +1,56 @@
+import { expandExponent, hasExponent } from '../expandExponent';
+
+describe('hasExponent', () => {
+  it('should check for exponent notation', () => {
+    expect(hasExponent('1.2e-7')).toBe(true);
+    expect(hasExponent('3E9')).toBe(true);
+    expect(hasExponent('1.2')).toBe(false);
+    expect(hasExponent('EUR 12')).toBe(false);
+  });
+});
+
+describe('expandExponent', () => {
+  it('should expand negative exponents', () => {
+    expect(expandExponent('1.2e-7')).toEqual('0.00000012');
+    expect(expandExponent('12.5e-1')).toEqual('1.25');
+    expect(expandExponent('-5e-3')).toEqual('-0.005');
+  });
+
+  it('should expand positive exponents', () => {
+    expect(expandExponent('3E9')).toEqual('3000000000');
+    expect(expandExponent('1.25e+1')).toEqual('12.5');
+    expect(expandExponent('0.012e2')).toEqual('1.2');
+    expect(expandExponent('.5e1')).toEqual('5');
+  });
+
+  it('should keep digits exactly', () => {
+    expect(expandExponent('1.2345678901234567e3')).toEqual('1234.5678901234567');
+  });
+
+  it('should count a missing exponent as 0', () => {
+    expect(expandExponent('1.2e')).toEqual('1.2');
+    expect(expandExponent('1.2e-')).toEqual('1.2');
+  });
+
+  it('should use the separators', () => {
+    expect(expandExponent('1,5e3', ',', '.')).toEqual('1500');
+    expect(expandExponent('1.234,5e-2', ',', '.')).toEqual('12,345');
+    expect(expandExponent('1,234.5e-2')).toEqual('12.345');
+    expect(expandExponent('15e-1', '', ',')).toEqual('1');
+  });
+
+  it('should keep the prefix and suffix', () => {
+    expect(expandExponent('$-1.5e2')).toEqual('$-150');
+    expect(expandExponent('1,5E3 €', ',', '.')).toEqual('1500 €');
+  });
+
+  it('should keep values without exponent', () => {
+    expect(expandExponent('1.2')).toEqual('1.2');
+    expect(expandExponent('e5')).toEqual('e5');
+  });
+
+  it('should not expand exponents beyond 308', () => {
+    expect(expandExponent('1e309')).toEqual('');
+    expect(expandExponent('1e-308')).toEqual(`0.${'0'.repeat(307)}1`);
+  });
+});
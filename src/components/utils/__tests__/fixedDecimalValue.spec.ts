@@ -36,4 +36,10 @@ describe('fixedDecimalValue', () => {
     expect(fixedDecimalValue('1,2345678', ',', 3)).toEqual('1,234');
     expect(fixedDecimalValue('123,45678', ',', 3)).toEqual('123,456');
   });
+
+  it('should round decimals with roundingMode if too long', () => {
+    expect(fixedDecimalValue('1.2355', '.', 2, 'halfExpand')).toEqual('1.24');
+    expect(fixedDecimalValue('1,2345678', ',', 3, 'ceil')).toEqual('1,235');
+    expect(fixedDecimalValue('-123,45678', ',', 3, 'floor')).toEqual('-123,457');
+  });
 });
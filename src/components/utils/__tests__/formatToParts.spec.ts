@@ -0,0 +1,71 @@
+import { formatToParts, formatToPartsManually, supportsStringInput } from '../formatToParts';
+
+const join = (parts: Intl.NumberFormatPart[]): string => parts.map(({ value }) => value).join('');
+
+describe('formatToParts', () => {
+  it('should detect Intl.NumberFormat string input', () => {
+    expect(supportsStringInput()).toBe(true);
+  });
+
+  it('should format values beyond Number.MAX_SAFE_INTEGER exactly', () => {
+    const numberFormatter = new Intl.NumberFormat('en-US', { maximumFractionDigits: 20 });
+
+    expect(join(formatToParts(numberFormatter, '12345678901234567.89'))).toBe(
+      '12,345,678,901,234,567.89'
+    );
+    expect(join(formatToParts(numberFormatter, '-0.123456789012345678'))).toBe(
+      '-0.123456789012345678'
+    );
+  });
+});
+
+describe('formatToPartsManually', () => {
+  it('should format the same as Intl.NumberFormat', () => {
+    const numberFormatters = [
+      new Intl.NumberFormat('en-US', { maximumFractionDigits: 20 }),
+      new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }),
+      new Intl.NumberFormat('en-GB', {
+        style: 'currency',
+        currency: 'GBP',
+        minimumFractionDigits: 3,
+      }),
+      new Intl.NumberFormat('ja-JP', { style: 'currency', currency: 'JPY' }),
+      new Intl.NumberFormat('en-US', { useGrouping: false, maximumFractionDigits: 1 }),
+    ];
+    const values = ['0', '1', '-1', '1234567.891', '-0.5', '999.999', '.25', '12.'];
+
+    numberFormatters.forEach((numberFormatter) => {
+      values.forEach((value) => {
+        expect(formatToPartsManually(numberFormatter, value)).toEqual(
+          numberFormatter.formatToParts(Number(value))
+        );
+      });
+    });
+  });
+
+  it('should format values beyond Number.MAX_SAFE_INTEGER exactly', () => {
+    expect(
+      join(
+        formatToPartsManually(
+          new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }),
+          '-12345678901234567.891'
+        )
+      )
+    ).toBe('-$12,345,678,901,234,567.89');
+    expect(
+      join(
+        formatToPartsManually(
+          new Intl.NumberFormat('de-DE', { maximumFractionDigits: 20 }),
+          '9007199254740993.000000000000000001'
+        )
+      )
+    ).toBe('9.007.199.254.740.993,000000000000000001');
+  });
+
+  it('should format values that are not decimal strings as numbers', () => {
+    const numberFormatter = new Intl.NumberFormat('en-US');
+
+    expect(join(formatToPartsManually(numberFormatter, 'abc'))).toBe('NaN');
+    expect(join(formatToPartsManually(numberFormatter, '1e3'))).toBe('1,000');
+  });
+});
@@ -315,6 +315,82 @@ describe('formatValue', () => {
       ).toEqual('123,456.79');
     });
 
+    it('should respect minimumFractionDigits and maximumFractionDigits of intlConfig', () => {
+      expect(
+        formatValue({
+          value: '1.5',
+          intlConfig: { locale: 'en-US', currency: 'USD', minimumFractionDigits: 2 },
+        })
+      ).toEqual('$1.50');
+
+      expect(
+        formatValue({
+          value: '1.23456',
+          intlConfig: { locale: 'en-US', currency: 'USD', maximumFractionDigits: 3 },
+        })
+      ).toEqual('$1.234');
+
+      expect(
+        formatValue({
+          value: '1.23456',
+          roundingMode: 'halfExpand',
+          intlConfig: { locale: 'en-US', maximumFractionDigits: 3 },
+        })
+      ).toEqual('1.235');
+    });
+
+    it('should format with significant digits', () => {
+      expect(
+        formatValue({
+          value: '0.0012345678',
+          significantDigits: 5,
+          intlConfig: { locale: 'en-US', currency: 'USD' },
+        })
+      ).toEqual('$0.0012345');
+
+      expect(
+        formatValue({
+          value: '1234,5',
+          decimalSeparator: ',',
+          groupSeparator: '.',
+          significantDigits: { min: 6, max: 8 },
+          decimalScale: 2,
+          intlConfig: { locale: 'de-DE', currency: 'EUR' },
+        })
+      ).toEqual('1.234,50\xa0€');
+    });
+
+    it('should format in scientific and engineering notation', () => {
+      expect(formatValue({ value: '0.00000012', notation: 'scientific' })).toEqual('1.2E-7');
+      expect(formatValue({ value: '0.00000012', notation: 'engineering' })).toEqual('120E-9');
+      expect(
+        formatValue({
+          value: '-3000000000',
+          notation: 'scientific',
+          decimalScale: 2,
+          intlConfig: { locale: 'en-US', currency: 'USD' },
+        })
+      ).toEqual('-$3.00E9');
+      expect(
+        formatValue({
+          value: '1234,5',
+          decimalSeparator: ',',
+          notation: 'scientific',
+          intlConfig: { locale: 'de-DE', currency: 'EUR' },
+        })
+      ).toEqual('1,2345E3\xa0€');
+    });
+
+    it('should prefer decimalScale over the fraction digits of intlConfig', () => {
+      expect(
+        formatValue({
+          value: '1.5',
+          decimalScale: 3,
+          intlConfig: { locale: 'en-US', currency: 'USD', minimumFractionDigits: 2 },
+        })
+      ).toEqual('$1.500');
+    });
+
     it('should handle suffix', () => {
       expect(
         formatValue({
@@ -549,4 +625,38 @@ describe('formatValue', () => {
       ).toEqual(`123,00`);
     });
   });
+
+  it('should format values beyond Number.MAX_SAFE_INTEGER exactly', () => {
+    expect(formatValue({ value: '12345678901234567.89' })).toEqual('12,345,678,901,234,567.89');
+    expect(
+      formatValue({
+        value: '-9007199254740993,5',
+        decimalSeparator: ',',
+        groupSeparator: '.',
+        intlConfig: { locale: 'de-DE', currency: 'EUR' },
+      })
+    ).toEqual('-9.007.199.254.740.993,5 €');
+  });
+
+  it('should round to decimalScale with roundingMode', () => {
+    expect(formatValue({ value: '1234.565', decimalScale: 2, roundingMode: 'halfEven' })).toEqual(
+      '1,234.56'
+    );
+    expect(formatValue({ value: '1234.565', decimalScale: 2, roundingMode: 'halfExpand' })).toEqual(
+      '1,234.57'
+    );
+    expect(
+      formatValue({
+        value: '9999,999',
+        decimalSeparator: ',',
+        groupSeparator: '.',
+        decimalScale: 2,
+        roundingMode: 'halfExpand',
+        prefix: '€',
+      })
+    ).toEqual('€10.000,00');
+    expect(
+      formatValue({ value: '12345678901234567.895', decimalScale: 2, roundingMode: 'ceil' })
+    ).toEqual('12,345,678,901,234,567.90');
+  });
 });
@@ -0,0 +1,36 @@
+import { getFractionDigits } from '../getFractionDigits';
+
+describe('getFractionDigits', () => {
+  it('should return fraction digits of the currency', () => {
+    expect(getFractionDigits({ locale: 'en-US', currency: 'USD' })).toStrictEqual({
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+    expect(getFractionDigits({ locale: 'ja-JP', currency: 'JPY' })).toStrictEqual({
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    });
+    expect(getFractionDigits({ locale: 'ar-KW', currency: 'KWD' })).toStrictEqual({
+      minimumFractionDigits: 3,
+      maximumFractionDigits: 3,
+    });
+  });
+
+  it('should return fraction digits set in intlConfig', () => {
+    expect(
+      getFractionDigits({ locale: 'en-US', currency: 'USD', minimumFractionDigits: 0 })
+    ).toStrictEqual({
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    });
+    expect(getFractionDigits({ locale: 'en-US', maximumFractionDigits: 4 })).toStrictEqual({
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 4,
+    });
+  });
+
+  it('should return undefined without currency or fraction digits', () => {
+    expect(getFractionDigits()).toBeUndefined();
+    expect(getFractionDigits({ locale: 'en-US' })).toBeUndefined();
+  });
+});
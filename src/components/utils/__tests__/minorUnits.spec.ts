@@ -0,0 +1,34 @@
+import { fromMinorUnits, toMinorUnits } from '../minorUnits';
+
+describe('minorUnits', () => {
+  describe('fromMinorUnits', () => {
+    it('should convert to major units', () => {
+      expect(fromMinorUnits(12345, 2)).toBe('123.45');
+      expect(fromMinorUnits(-5, 2)).toBe('-0.05');
+      expect(fromMinorUnits('100', 2)).toBe('1');
+      expect(fromMinorUnits(1234, 0)).toBe('1234');
+      expect(fromMinorUnits(1234, 3)).toBe('1.234');
+    });
+
+    it('should convert values beyond Number.MAX_SAFE_INTEGER exactly', () => {
+      expect(fromMinorUnits(1234567890123456789n, 2)).toBe('12345678901234567.89');
+    });
+  });
+
+  describe('toMinorUnits', () => {
+    it('should convert to minor units', () => {
+      expect(toMinorUnits('123.45', 2)).toBe(12345n);
+      expect(toMinorUnits('-0.05', 2)).toBe(-5n);
+      expect(toMinorUnits('1.', 2)).toBe(100n);
+      expect(toMinorUnits('.5', 3)).toBe(500n);
+      expect(toMinorUnits('12345678901234567.89', 2)).toBe(1234567890123456789n);
+    });
+
+    it('should round decimals beyond the minor unit', () => {
+      expect(toMinorUnits('1.005', 2)).toBe(101n);
+      expect(toMinorUnits('-1.005', 2)).toBe(-101n);
+      expect(toMinorUnits('1.005', 2, 'trunc')).toBe(100n);
+      expect(toMinorUnits('2.5', 0, 'halfEven')).toBe(2n);
+    });
+  });
+});
@@ -34,4 +34,11 @@ describe('padTrimValue', () => {
     expect(padTrimValue('99', '', 0)).toEqual('99');
     expect(padTrimValue('99', '')).toEqual('99');
   });
+
+  it('should round with roundingMode if decimal length is larger than decimalScale', () => {
+    expect(padTrimValue('10.599', '.', 2, 'halfExpand')).toEqual('10.60');
+    expect(padTrimValue('10.599', '.', 0, 'halfExpand')).toEqual('11');
+    expect(padTrimValue('-1,225', ',', 2, 'halfEven')).toEqual('-1,22');
+    expect(padTrimValue('1.5', '.', 3, 'halfExpand')).toEqual('1.500');
+  });
 });
@@ -1,4 +1,4 @@
-import { abbrValue, parseAbbrValue } from '../parseAbbrValue';
+import { abbrValue, parseAbbrValue, readAbbrValue } from '../parseAbbrValue';
 
 describe('abbrValue', () => {
   it('should not convert value under 1000', () => {
@@ -78,3 +78,18 @@ describe('parseAbbrValue', () => {
     expect(parseAbbrValue('2,3m', ',')).toEqual(2300000);
   });
 });
+
+describe('readAbbrValue', () => {
+  it('should read abbreviated number at position', () => {
+    expect(readAbbrValue('1.5k * 3', 0)).toEqual({ value: '1.5e3', length: 4 });
+    expect(readAbbrValue('2 + 3M', 4)).toEqual({ value: '3e6', length: 2 });
+    expect(readAbbrValue('1,5b', 0, ',')).toEqual({ value: '1.5e9', length: 4 });
+  });
+
+  it('should return undefined if there is no abbreviated number at position', () => {
+    expect(readAbbrValue('1.5k * 3', 1)).toBeUndefined();
+    expect(readAbbrValue('1.5 * 3', 0)).toBeUndefined();
+    expect(readAbbrValue('2kg', 0)).toBeUndefined();
+    expect(readAbbrValue('1max', 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  addRational,
+  compareRational,
+  createRational,
+  divideAndRound,
+  divideRational,
+  multiplyRational,
+  parseRational,
+  powRational,
+  rationalFromNumber,
+  rationalToDecimalString,
+  rationalToNumber,
+  subtractRational,
+} from '../rational';
+
+describe('rational', () => {
+  describe('createRational', () => {
+    it('should reduce and keep denominator positive', () => {
+      expect(createRational(6n, -4n)).toEqual({ numerator: -3n, denominator: 2n });
+      expect(createRational(0n, 5n)).toEqual({ numerator: 0n, denominator: 1n });
+    });
+
+    it('should throw for zero denominator', () => {
+      expect(() => createRational(1n, 0n)).toThrow('Division by zero');
+    });
+  });
+
+  describe('parseRational', () => {
+    it('should parse decimal strings', () => {
+      expect(parseRational('1234.5')).toEqual({ numerator: 2469n, denominator: 2n });
+      expect(parseRational('-0.25')).toEqual({ numerator: -1n, denominator: 4n });
+      expect(parseRational('.5')).toEqual({ numerator: 1n, denominator: 2n });
+      expect(parseRational('7.')).toEqual({ numerator: 7n, denominator: 1n });
+    });
+
+    it('should parse exponent notation', () => {
+      expect(parseRational('1.2e-7')).toEqual({ numerator: 3n, denominator: 25000000n });
+      expect(parseRational('3E9')).toEqual({ numerator: 3000000000n, denominator: 1n });
+    });
+
+    it('should throw for invalid numbers', () => {
+      expect(() => parseRational('')).toThrow();
+      expect(() => parseRational('.')).toThrow();
+      expect(() => parseRational('1.2.3')).toThrow();
+      expect(() => parseRational('abc')).toThrow();
+      expect(() => parseRational('1e99999')).toThrow();
+    });
+  });
+
+  describe('rationalFromNumber', () => {
+    it('should convert numbers', () => {
+      expect(rationalFromNumber(0.1)).toEqual({ numerator: 1n, denominator: 10n });
+      expect(rationalFromNumber(1e21)).toEqual({ numerator: 10n ** 21n, denominator: 1n });
+    });
+
+    it('should throw for non finite numbers', () => {
+      expect(() => rationalFromNumber(Infinity)).toThrow();
+      expect(() => rationalFromNumber(NaN)).toThrow();
+    });
+  });
+
+  describe('arithmetic', () => {
+    const a = parseRational('0.1');
+    const b = parseRational('0.2');
+
+    it('should calculate exactly', () => {
+      expect(addRational(a, b)).toEqual(parseRational('0.3'));
+      expect(subtractRational(a, b)).toEqual(parseRational('-0.1'));
+      expect(multiplyRational(a, b)).toEqual(parseRational('0.02'));
+      expect(divideRational(a, b)).toEqual(parseRational('0.5'));
+      expect(powRational(b, 3n)).toEqual(parseRational('0.008'));
+      expect(powRational(b, -2n)).toEqual(parseRational('25'));
+    });
+
+    it('should throw for division by zero', () => {
+      expect(() => divideRational(a, parseRational('0'))).toThrow('Division by zero');
+      expect(() => powRational(parseRational('0'), -1n)).toThrow('Division by zero');
+    });
+
+    it('should compare', () => {
+      expect(compareRational(a, b)).toEqual(-1);
+      expect(compareRational(b, a)).toEqual(1);
+      expect(compareRational(a, parseRational('0.10'))).toEqual(0);
+    });
+  });
+
+  describe('divideAndRound', () => {
+    const round = (numerator: bigint, denominator: bigint) =>
+      (
+        [
+          'ceil',
+          'floor',
+          'expand',
+          'trunc',
+          'halfCeil',
+          'halfFloor',
+          'halfExpand',
+          'halfTrunc',
+          'halfEven',
+        ] as const
+      ).map((mode) => divideAndRound(numerator, denominator, mode));
+
+    it('should round ties', () => {
+      expect(round(5n, 2n)).toEqual([3n, 2n, 3n, 2n, 3n, 2n, 3n, 2n, 2n]);
+      expect(round(-5n, 2n)).toEqual([-2n, -3n, -3n, -2n, -2n, -3n, -3n, -2n, -2n]);
+      expect(round(7n, 2n)).toEqual([4n, 3n, 4n, 3n, 4n, 3n, 4n, 3n, 4n]);
+    });
+
+    it('should round to nearest', () => {
+      expect(round(7n, 3n)).toEqual([3n, 2n, 3n, 2n, 2n, 2n, 2n, 2n, 2n]);
+      expect(round(-8n, 3n)).toEqual([-2n, -3n, -3n, -2n, -3n, -3n, -3n, -3n, -3n]);
+    });
+
+    it('should not round exact quotients', () => {
+      expect(round(6n, 3n)).toEqual([2n, 2n, 2n, 2n, 2n, 2n, 2n, 2n, 2n]);
+    });
+  });
+
+  describe('rationalToDecimalString', () => {
+    it('should write exact values without trailing zeros', () => {
+      expect(rationalToDecimalString(parseRational('1234.50'), 20)).toEqual('1234.5');
+      expect(rationalToDecimalString(parseRational('-0.005'), 20)).toEqual('-0.005');
+      expect(rationalToDecimalString(parseRational('1e21'), 20)).toEqual('1000000000000000000000');
+      expect(rationalToDecimalString(parseRational('0'), 20)).toEqual('0');
+    });
+
+    it('should round values with too many decimals', () => {
+      const third = createRational(1n, 3n);
+
+      expect(rationalToDecimalString(third, 5)).toEqual('0.33333');
+      expect(rationalToDecimalString(createRational(2n, 3n), 2)).toEqual('0.67');
+      expect(rationalToDecimalString(parseRational('1.005'), 2)).toEqual('1.01');
+      expect(rationalToDecimalString(parseRational('1.005'), 2, 'halfEven')).toEqual('1');
+      expect(rationalToDecimalString(parseRational('-1.239'), 2, 'trunc')).toEqual('-1.23');
+      expect(rationalToDecimalString(parseRational('-0.001'), 2)).toEqual('0');
+    });
+  });
+
+  describe('rationalToNumber', () => {
+    it('should convert to number', () => {
+      expect(rationalToNumber(parseRational('1234.5'))).toEqual(1234.5);
+      expect(rationalToNumber(createRational(1n, 3n))).toEqual(1 / 3);
+      expect(rationalToNumber(parseRational('1.2e-30'))).toEqual(1.2e-30);
+    });
+  });
+});
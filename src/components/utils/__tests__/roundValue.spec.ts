@@ -0,0 +1,56 @@
+import { roundValue } from '../roundValue';
+
+describe('roundValue', () => {
+  it('should round with each rounding mode', () => {
+    const round = (value: string) =>
+      (
+        [
+          'ceil',
+          'floor',
+          'expand',
+          'trunc',
+          'halfCeil',
+          'halfFloor',
+          'halfExpand',
+          'halfTrunc',
+          'halfEven',
+        ] as const
+      ).map((roundingMode) => roundValue(value, '.', 1, roundingMode));
+
+    expect(round('1.25')).toEqual(['1.3', '1.2', '1.3', '1.2', '1.3', '1.2', '1.3', '1.2', '1.2']);
+    expect(round('-1.25')).toEqual([
+      '-1.2',
+      '-1.3',
+      '-1.3',
+      '-1.2',
+      '-1.2',
+      '-1.3',
+      '-1.3',
+      '-1.2',
+      '-1.2',
+    ]);
+    expect(round('1.351')).toEqual(['1.4', '1.3', '1.4', '1.3', '1.4', '1.4', '1.4', '1.4', '1.4']);
+  });
+
+  it('should carry into the integer', () => {
+    expect(roundValue('9.995', '.', 2, 'halfExpand')).toBe('10.00');
+    expect(roundValue('-99,5', ',', 0, 'halfExpand')).toBe('-100');
+  });
+
+  it('should round values beyond Number.MAX_SAFE_INTEGER exactly', () => {
+    expect(roundValue('12345678901234567.895', '.', 2, 'halfEven')).toBe('12345678901234567.90');
+  });
+
+  it('should keep the sign and omitted zero', () => {
+    expect(roundValue('-0.001', '.', 2, 'halfExpand')).toBe('-0.00');
+    expect(roundValue('.126', '.', 2, 'halfExpand')).toBe('.13');
+    expect(roundValue('.996', '.', 2, 'halfExpand')).toBe('1.00');
+  });
+
+  it('should return values with fewer decimals as is', () => {
+    expect(roundValue('1.2', '.', 2, 'halfExpand')).toBe('1.2');
+    expect(roundValue('12', '.', 0, 'halfExpand')).toBe('12');
+    expect(roundValue('1.', '.', 0, 'halfExpand')).toBe('1.');
+    expect(roundValue('1.23', '', 1, 'halfExpand')).toBe('1.23');
+  });
+});
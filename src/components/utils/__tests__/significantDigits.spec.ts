@@ -0,0 +1,70 @@
+import {
+  applySignificantDigits,
+  getSignificantDecimals,
+  getSignificantDigitsRange,
+} from '../significantDigits';
+
+describe('getSignificantDigitsRange', () => {
+  it('should use a number as minimum and maximum', () => {
+    expect(getSignificantDigitsRange(5)).toEqual({ min: 5, max: 5 });
+    expect(getSignificantDigitsRange({ max: 3 })).toEqual({ max: 3 });
+    expect(getSignificantDigitsRange()).toEqual({});
+  });
+});
+
+describe('getSignificantDecimals', () => {
+  it('should count decimals from the first significant digit', () => {
+    expect(getSignificantDecimals('0.0012345', '.', 3)).toEqual(5);
+    expect(getSignificantDecimals('-1.5', '.', 3)).toEqual(2);
+    expect(getSignificantDecimals('1234.5', '.', 3)).toEqual(-1);
+    expect(getSignificantDecimals('.5', '.', 3)).toEqual(3);
+    expect(getSignificantDecimals('12,3', ',', 5)).toEqual(3);
+  });
+
+  it('should count zero from the ones digit', () => {
+    expect(getSignificantDecimals('0', '.', 3)).toEqual(2);
+    expect(getSignificantDecimals('0.000', '.', 3)).toEqual(2);
+  });
+});
+
+describe('applySignificantDigits', () => {
+  it('should truncate to the maximum significant digits by default', () => {
+    expect(applySignificantDigits('0.0012345678', '.', { max: 5 })).toEqual('0.0012345');
+    expect(applySignificantDigits('1234.5678', '.', { max: 5 })).toEqual('1234.5');
+    expect(applySignificantDigits('-1234,5678', ',', { max: 5 })).toEqual('-1234,5');
+    expect(applySignificantDigits('1.2', '.', { max: 5 })).toEqual('1.2');
+  });
+
+  it('should round integer digits', () => {
+    expect(applySignificantDigits('123456.7', '.', { max: 3 })).toEqual('123000');
+    expect(applySignificantDigits('123556.7', '.', { max: 3 }, 'halfExpand')).toEqual('124000');
+    expect(applySignificantDigits('-122500.1', '.', { max: 3 }, 'halfEven')).toEqual('-123000');
+  });
+
+  it('should round with roundingMode', () => {
+    expect(applySignificantDigits('0.0012345678', '.', { max: 5 }, 'halfExpand')).toEqual(
+      '0.0012346'
+    );
+    expect(applySignificantDigits('-1.23456', '.', { max: 3 }, 'floor')).toEqual('-1.24');
+  });
+
+  it('should drop the zero added when rounding up to the next power of ten', () => {
+    expect(applySignificantDigits('9.9996', '.', { max: 4 }, 'halfExpand')).toEqual('10.00');
+    expect(applySignificantDigits('0.99996', '.', { max: 4 }, 'halfExpand')).toEqual('1.000');
+  });
+
+  it('should pad to the minimum significant digits', () => {
+    expect(applySignificantDigits('1.5', '.', { min: 5 })).toEqual('1.5000');
+    expect(applySignificantDigits('0.0012', '.', { min: 5 })).toEqual('0.0012000');
+    expect(applySignificantDigits('0', '.', { min: 3 })).toEqual('0.00');
+    expect(applySignificantDigits('123456', '.', { min: 3 })).toEqual('123456');
+    expect(applySignificantDigits('12', ',', 5)).toEqual('12,000');
+  });
+
+  it('should keep values that are not plain numbers', () => {
+    expect(applySignificantDigits('', '.', 5)).toEqual('');
+    expect(applySignificantDigits('-', '.', 5)).toEqual('-');
+    expect(applySignificantDigits('1+2', '.', 5)).toEqual('1+2');
+    expect(applySignificantDigits('1.5', '', 5)).toEqual('1.5');
+  });
+});
@@ -0,0 +1,75 @@
+import { isStepMultiple, snapValue, stepValue } from '../stepValue';
+
+describe('stepValue', () => {
+  it('should add the step', () => {
+    expect(stepValue('10', 1)).toBe('11');
+    expect(stepValue('10', 1, -1)).toBe('9');
+    expect(stepValue('1.25', 0.5)).toBe('1.75');
+    expect(stepValue('-0.5', 1)).toBe('0.5');
+  });
+
+  it('should keep the decimals of the step', () => {
+    expect(stepValue('94.5', 5.5, -1)).toBe('89.0');
+    expect(stepValue('1', 0.25)).toBe('1.25');
+    expect(stepValue('1', 1, 0.1)).toBe('1.1');
+    expect(stepValue('1.2', 1, 0.1)).toBe('1.3');
+  });
+
+  it('should multiply the step', () => {
+    expect(stepValue('10', 1, 10)).toBe('20');
+    expect(stepValue('10', 5, -10)).toBe('-40');
+    expect(stepValue('1.2', 1, 0.1)).toBe('1.3');
+    expect(stepValue('1.2', 0.1, -0.1)).toBe('1.19');
+  });
+
+  it('should step without floating point errors', () => {
+    expect(stepValue('0.1', 0.2)).toBe('0.3');
+    expect(stepValue('12345678901234567.89', 0.01)).toBe('12345678901234567.90');
+  });
+
+  it('should step from zero for empty values', () => {
+    expect(stepValue('', 1)).toBe('1');
+    expect(stepValue('-', 1, -1)).toBe('-1');
+  });
+
+  it('should land on the next multiple of the step with a snap base', () => {
+    expect(stepValue('1.03', 0.05, 1, 0)).toBe('1.10');
+    expect(stepValue('1.03', 0.05, -1, 0)).toBe('0.95');
+    expect(stepValue('1.05', 0.05, 1, 0)).toBe('1.10');
+    expect(stepValue('7', 5, 1, 1)).toBe('16');
+    expect(stepValue('7', 5, -1, 1)).toBe('1');
+    expect(stepValue('7', 1, 10, 0)).toBe('20');
+    expect(stepValue('7', -2, 1, 0)).toBe('4');
+  });
+
+  describe('snapValue', () => {
+    it('should round to the closest multiple of the step', () => {
+      expect(snapValue('1.03', 0.05)).toBe('1.05');
+      expect(snapValue('1.02', 0.05)).toBe('1.00');
+      expect(snapValue('-1.03', 0.05)).toBe('-1.05');
+      expect(snapValue('7', 5, 1)).toBe('6');
+      expect(snapValue('7.5', 5, '0.5')).toBe('5.5');
+    });
+
+    it('should round with the rounding mode', () => {
+      expect(snapValue('1.025', 0.05)).toBe('1.05');
+      expect(snapValue('1.025', 0.05, 0, 'halfEven')).toBe('1.00');
+      expect(snapValue('1.049', 0.05, 0, 'floor')).toBe('1.00');
+    });
+
+    it('should return the value without step', () => {
+      expect(snapValue('1.03', 0)).toBe('1.03');
+    });
+  });
+
+  describe('isStepMultiple', () => {
+    it('should check if the value is a multiple of the step', () => {
+      expect(isStepMultiple('1.05', 0.05)).toBe(true);
+      expect(isStepMultiple('1.03', 0.05)).toBe(false);
+      expect(isStepMultiple('-15', 5)).toBe(true);
+      expect(isStepMultiple('6', 5, 1)).toBe(true);
+      expect(isStepMultiple('5', 5, 1)).toBe(false);
+      expect(isStepMultiple('0.3', 0.1)).toBe(true);
+    });
+  });
+});
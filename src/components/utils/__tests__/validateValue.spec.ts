@@ -0,0 +1,116 @@
+import { isSameValidation, validateValue } from '../validateValue';
+
+const toValues = (decimal: string) => ({
+  float: decimal ? Number(decimal) : null,
+  decimal,
+  formatted: decimal,
+  value: decimal,
+});
+
+describe('validateValue', () => {
+  it('should return no errors for a valid value', () => {
+    expect(validateValue('5', toValues('5'), { required: true, min: 1, max: 10 })).toEqual([]);
+    expect(validateValue(undefined, toValues(''), { min: 1, precision: 2, nonZero: true })).toEqual(
+      []
+    );
+  });
+
+  it('should validate required', () => {
+    expect(validateValue(undefined, toValues(''), { required: true })).toEqual([
+      { code: 'required', message: 'Enter a value', params: {} },
+    ]);
+    expect(validateValue('-', toValues('-'), { required: true })).toEqual([
+      { code: 'required', message: 'Enter a value', params: {} },
+    ]);
+  });
+
+  it('should validate min and max exactly', () => {
+    expect(validateValue('0.5', toValues('0.5'), { min: 1 })).toEqual([
+      { code: 'min', message: 'Enter 1 or more', params: { min: '1' } },
+    ]);
+    expect(
+      validateValue('12345678901234567.9', toValues('12345678901234567.9'), {
+        max: '12345678901234567.89',
+      })
+    ).toEqual([
+      {
+        code: 'max',
+        message: 'Enter 12345678901234567.89 or less',
+        params: { max: '12345678901234567.89' },
+      },
+    ]);
+  });
+
+  it('should validate precision without trailing zeros', () => {
+    expect(validateValue('1.50', toValues('1.50'), { precision: 1 })).toEqual([]);
+    expect(validateValue('1.55', toValues('1.55'), { precision: 1 })).toEqual([
+      { code: 'precision', message: 'Decimal places allowed: 1', params: { precision: 1 } },
+    ]);
+  });
+
+  it('should validate nonZero', () => {
+    expect(validateValue('0.00', toValues('0.00'), { nonZero: true })).toEqual([
+      { code: 'nonZero', message: 'Enter a value other than zero', params: {} },
+    ]);
+    expect(validateValue('-0.01', toValues('-0.01'), { nonZero: true })).toEqual([]);
+  });
+
+  it('should validate step from min', () => {
+    expect(validateValue('1.05', toValues('1.05'), { step: 0.05 })).toEqual([]);
+    expect(validateValue('1.03', toValues('1.03'), { step: 0.05 })).toEqual([
+      {
+        code: 'step',
+        message: 'Enter a value in steps of 0.05',
+        params: { step: '0.05', base: '0' },
+      },
+    ]);
+    expect(validateValue('6', toValues('6'), { step: 5, min: 1 })).toEqual([]);
+    expect(validateValue('5', toValues('5'), { step: true })).toEqual([]);
+  });
+
+  it('should use custom messages', () => {
+    expect(
+      validateValue('20', toValues('20'), {
+        max: 10,
+        precision: 0,
+        messages: { max: 'Maximum {max}' },
+      })
+    ).toEqual([{ code: 'max', message: 'Maximum 10', params: { max: '10' } }]);
+    expect(
+      validateValue('0', toValues('0'), {
+        nonZero: true,
+        messages: { nonZero: () => 'Non nul' },
+      })
+    ).toEqual([{ code: 'nonZero', message: 'Non nul', params: {} }]);
+  });
+
+  it('should run custom validators after the built-in rules', () => {
+    const isEven = (value: string | undefined) =>
+      value && Number(value) % 2 ? 'Enter an even number' : undefined;
+    const noThirteen = (value: string | undefined) =>
+      value === '13' ? { code: 'unlucky', message: 'Not 13' } : null;
+
+    expect(validateValue('13', toValues('13'), { max: 10, custom: [isEven, noThirteen] })).toEqual([
+      { code: 'max', message: 'Enter 10 or less', params: { max: '10' } },
+      { code: 'custom', message: 'Enter an even number' },
+      { code: 'unlucky', message: 'Not 13' },
+    ]);
+    expect(validateValue(undefined, toValues(''), { custom: isEven })).toEqual([]);
+  });
+
+  describe('isSameValidation', () => {
+    it('should compare errors by code and message', () => {
+      expect(isSameValidation([], [])).toBe(true);
+      expect(
+        isSameValidation(
+          [{ code: 'max', message: 'Max', params: { max: 1 } }],
+          [{ code: 'max', message: 'Max' }]
+        )
+      ).toBe(true);
+      expect(
+        isSameValidation([{ code: 'max', message: 'Max 1' }], [{ code: 'max', message: 'Max 2' }])
+      ).toBe(false);
+      expect(isSameValidation([{ code: 'max', message: 'Max' }], [])).toBe(false);
+    });
+  });
+});
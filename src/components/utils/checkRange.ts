@@ -0,0 +1,64 @@
+import {
+  compareRational,
+  getExactDecimals,
+  parseRational,
+  Rational,
+  rationalToDecimalString,
+} from './rational';
+
+/**
+ * Parse a number or decimal string, undefined if empty or not a number
+ */
+const parseNumber = (value?: number | string): Rational | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  try {
+    return parseRational(String(value));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Check if the value, a plain decimal string with "." as decimal separator, is below `min`
+ * or above `max`. Compared exactly, so bounds can be decimal strings beyond float precision
+ *
+ * Eg. "1000.01" with max "1000" > "max"
+ */
+export const getOutOfRange = (
+  value: string,
+  min?: number | string,
+  max?: number | string
+): 'min' | 'max' | undefined => {
+  const number = parseNumber(value);
+  const minBound = parseNumber(min);
+  const maxBound = parseNumber(max);
+
+  if (!number) {
+    return undefined;
+  }
+
+  if (minBound && compareRational(number, minBound) < 0) {
+    return 'min';
+  }
+
+  if (maxBound && compareRational(number, maxBound) > 0) {
+    return 'max';
+  }
+
+  return undefined;
+};
+
+/**
+ * Limit the value, a plain decimal string with "." as decimal separator, to `min` and `max`
+ *
+ * Eg. "1000.01" with max "1000" > "1000"
+ */
+export const clampValue = (value: string, min?: number | string, max?: number | string): string => {
+  const outOfRange = getOutOfRange(value, min, max);
+  const bound = outOfRange && parseNumber(outOfRange === 'min' ? min : max);
+
+  return bound ? rationalToDecimalString(bound, getExactDecimals(bound) || 0) : value;
+};
@@ -2,7 +2,14 @@ import { parseAbbrValue } from './parseAbbrValue';
 import { removeSeparators } from './removeSeparators';
 import { removeInvalidChars } from './removeInvalidChars';
 import { escapeRegExp } from './escapeRegExp';
+import { expandExponent } from './expandExponent';
 import { CurrencyInputProps } from '../CurrencyInputProps';
+import { roundValue } from './roundValue';
+import {
+  getSignificantDecimals,
+  getSignificantDigitsRange,
+  hasSignificantDigits,
+} from './significantDigits';
 
 export type CleanValueOptions = Pick<
   CurrencyInputProps,
@@ -14,6 +21,9 @@ export type CleanValueOptions = Pick<
   | 'disableAbbreviations'
   | 'prefix'
   | 'transformRawValue'
+  | 'roundingMode'
+  | 'significantDigits'
+  | 'allowExponentNotation'
 > & { value: string };
 
 /**
@@ -29,8 +39,14 @@ export const cleanValue = ({
   disableAbbreviations = false,
   prefix = '',
   transformRawValue = (rawValue) => rawValue,
+  roundingMode,
+  significantDigits,
+  allowExponentNotation = false,
 }: CleanValueOptions): string => {
-  const transformedValue = transformRawValue(value);
+  const transformedRawValue = transformRawValue(value);
+  const transformedValue = allowExponentNotation
+    ? expandExponent(transformedRawValue, decimalSeparator, groupSeparator)
+    : transformedRawValue;
 
   if (transformedValue === '-') {
     return transformedValue;
@@ -75,7 +91,34 @@ export const cleanValue = ({
 
   if (decimalSeparator && valueOnly.includes(decimalSeparator)) {
     const [int, decimals] = withoutInvalidChars.split(decimalSeparator);
-    const trimmedDecimals = decimalsLimit && decimals ? decimals.slice(0, decimalsLimit) : decimals;
+    const { max: maxSignificantDigits } = getSignificantDigitsRange(significantDigits);
+
+    // Limit decimals to the maximum significant digits, once there is a significant digit
+    const limit =
+      maxSignificantDigits !== undefined && hasSignificantDigits(`${int}${decimals}`)
+        ? Math.min(
+            Math.max(getSignificantDecimals(`${int}.${decimals}`, '.', maxSignificantDigits), 0),
+            decimalsLimit || Infinity
+          )
+        : decimalsLimit || undefined;
+
+    // Round extra decimals, including the sign so negative values are rounded the right way
+    if (
+      roundingMode &&
+      allowDecimals &&
+      limit !== undefined &&
+      decimals &&
+      decimals.length > limit
+    ) {
+      return roundValue(
+        `${includeNegative}${int}${decimalSeparator}${decimals}`,
+        decimalSeparator,
+        limit,
+        roundingMode
+      );
+    }
+
+    const trimmedDecimals = limit !== undefined && decimals ? decimals.slice(0, limit) : decimals;
     const includeDecimals = allowDecimals ? `${decimalSeparator}${trimmedDecimals}` : '';
 
     return `${includeNegative}${int}${includeDecimals}`;
@@ -1,40 +1,565 @@
+import { escapeRegExp } from "./escapeRegExp";
+import { readAbbrValue } from "./parseAbbrValue";
+import {
+  Rational,
+  RoundingMode,
+  absRational,
+  addRational,
+  compareRational,
+  createRational,
+  divideAndRound,
+  divideRational,
+  getExactDecimals,
+  multiplyRational,
+  negateRational,
+  parseRational,
+  powRational,
+  rationalFromNumber,
+  rationalToDecimalString,
+  rationalToNumber,
+  subtractRational,
+} from "./rational";
+
+/**
+ * Named values that can be referenced in an expression, e.g. `{ subtotal: 120, qty: 3 }`
+ */
+export type MathExpressionVariables = { [name: string]: number };
+
+/**
+ * Functions that can be called in an expression, e.g. `{ tax: (amount) => amount * 0.2 }`
+ */
+export type MathExpressionFunctions = { [name: string]: (...args: number[]) => number };
+
+/**
+ * How `%` is calculated
+ *
+ * - `fraction`: `b%` is always `b / 100`, eg. `200 + 10%` = `200.1`
+ * - `calculator`: like a desk calculator, `a + b%` and `a - b%` apply the percentage
+ * to the left operand, eg. `200 + 10%` = `220`. Elsewhere `b%` is `b / 100`, eg. `200 * 10%` = `20`
+ */
+export type MathExpressionPercentageMode = "fraction" | "calculator";
+
+export type MathExpressionOperator = "+" | "-" | "*" | "/" | "%" | "^";
+
+/**
+ * Characters of each operator, including the Unicode forms eg. "×" from mobile keyboards
+ */
+export const mathExpressionOperators: Readonly<{ [operator in MathExpressionOperator]: string }> = {
+  "+": "+",
+  "-": "-−", // U+2212 minus sign
+  "*": "*×",
+  "/": "/÷",
+  "%": "%",
+  "^": "^",
+};
+
+export type EvaluateMathExpressionOptions = {
+  /**
+   * Variables available to the expression. Referencing a name that is not
+   * in this map makes the expression invalid.
+   */
+  variables?: MathExpressionVariables;
+
+  /**
+   * Functions available to the expression in addition to the built-in
+   * `mathExpressionFunctions`. A function with the same name as a built-in overrides it.
+   */
+  functions?: MathExpressionFunctions;
+
+  /**
+   * Decimal separator of the numbers in the expression, eg. `,` for `1.234,5 + 2,5`
+   *
+   * When it is `,`, function arguments have to be separated with `;`
+   *
+   * Default = '.'
+   */
+  decimalSeparator?: string;
+
+  /**
+   * Group separator of the numbers in the expression, eg. `,` for `1,234.5`
+   *
+   * Only read as part of a number when followed by a group of exactly three digits
+   */
+  groupSeparator?: string;
+
+  /**
+   * Prefix to ignore, eg. `$`. It can be written before the expression and before each number,
+   * eg. `$20 + $5.50`
+   */
+  prefix?: string;
+
+  /**
+   * Suffix to ignore, eg. `€`. It can be written after the expression and after each number,
+   * eg. `20 € + 5,50 €`
+   */
+  suffix?: string;
+
+  /**
+   * Read abbreviated numbers, eg. `1.5k * 3` = `4500`. Same abbreviations as `parseAbbrValue`
+   *
+   * Default = true
+   */
+  abbreviations?: boolean;
+
+  /**
+   * How `%` is calculated, see `MathExpressionPercentageMode`
+   *
+   * Default = 'fraction'
+   */
+  percentageMode?: MathExpressionPercentageMode;
+
+  /**
+   * Operators that can be used, eg. `["+", "-"]`. Using another operator makes the expression invalid.
+   * Note that `-` is also needed for negative numbers, and `*` for implicit multiplication eg. `2(3 + 4)`
+   *
+   * Default = all operators
+   */
+  operators?: MathExpressionOperator[];
+
+  /**
+   * Maximum length of the expression, without prefix, suffix and surrounding spaces
+   *
+   * Default = 200
+   */
+  maxLength?: number;
+};
+
+export type EvaluateMathExpressionDecimalOptions = EvaluateMathExpressionOptions & {
+  /**
+   * Number of decimals a result that cannot be written exactly (eg. 10 / 3) is rounded to
+   *
+   * Default = 20
+   */
+  divisionPrecision?: number;
+
+  /**
+   * How a result that cannot be written exactly is rounded
+   *
+   * Default = 'halfExpand'
+   */
+  roundingMode?: RoundingMode;
+};
+
+/**
+ * Whether an expression is calculated with exact decimals or with floats
+ */
+export type MathExpressionArithmetic = "decimal" | "float";
+
+export type EvaluateMathExpressionResultOptions = EvaluateMathExpressionDecimalOptions & {
+  /**
+   * Default = 'decimal'
+   */
+  arithmetic?: MathExpressionArithmetic;
+};
+
+/**
+ * Why an expression could not be evaluated
+ *
+ * - `EMPTY`: there is nothing to evaluate
+ * - `TOO_LONG`: the expression is longer than `maxLength`
+ * - `INVALID_CHARACTER`: a character that is not allowed in an expression
+ * - `OPERATOR_NOT_ALLOWED`: an operator that is not in `operators`
+ * - `UNEXPECTED_TOKEN`: a number, name or operator in the wrong place eg. `2 * / 3`
+ * - `UNEXPECTED_END`: the expression ends early eg. `2 *`
+ * - `MISSING_PARENTHESIS`: a parenthesis is never closed
+ * - `UNKNOWN_VARIABLE`, `UNKNOWN_FUNCTION`: a name that is not defined
+ * - `INVALID_ARGUMENTS`: a function is called with the wrong arguments
+ * - `FUNCTION_ERROR`: a custom function threw an error
+ * - `DIVISION_BY_ZERO`: eg. `1 / 0`
+ * - `NOT_FINITE`: the result is too large or not a number eg. `10^2000`
+ */
+export type MathExpressionErrorCode =
+  | "EMPTY"
+  | "TOO_LONG"
+  | "INVALID_CHARACTER"
+  | "OPERATOR_NOT_ALLOWED"
+  | "UNEXPECTED_TOKEN"
+  | "UNEXPECTED_END"
+  | "MISSING_PARENTHESIS"
+  | "UNKNOWN_VARIABLE"
+  | "UNKNOWN_FUNCTION"
+  | "INVALID_ARGUMENTS"
+  | "FUNCTION_ERROR"
+  | "DIVISION_BY_ZERO"
+  | "NOT_FINITE";
+
+export type MathExpressionError = {
+  code: MathExpressionErrorCode;
+  /**
+   * English description of the error, use `code` to show a localized message
+   */
+  message: string;
+  /**
+   * Character offset of the error in the expression as it was passed in,
+   * including any prefix and suffix
+   */
+  offset: number;
+};
+
+export type MathExpressionResult<T = string> =
+  | { ok: true; value: T }
+  | { ok: false; error: MathExpressionError };
+
+/**
+ * Thrown while evaluating, the offset is filled in by the parser for errors thrown by functions
+ */
+class ExpressionError extends Error {
+  code: MathExpressionErrorCode;
+  offset?: number;
+
+  constructor(code: MathExpressionErrorCode, message: string, offset?: number) {
+    super(message);
+    this.code = code;
+    this.offset = offset;
+  }
+}
+
+type TokenizerOptions = Required<
+  Pick<
+    EvaluateMathExpressionOptions,
+    "decimalSeparator" | "groupSeparator" | "prefix" | "suffix" | "abbreviations" | "operators"
+  >
+>;
+
+/**
+ * Move the decimal point of a number using exponent notation
+ *
+ * Avoids floating point errors eg. 1.005 * 100 = 100.49999999999999
+ */
+const shiftDecimalPoint = (value: number, places: number): number => {
+  const [mantissa, exponent = "0"] = String(value).split("e");
+  return Number(`${mantissa}e${Number(exponent) + places}`);
+};
+
+/**
+ * Round half away from zero to the given number of decimal places
+ */
+const round = (value: number, decimalPlaces = 0): number => {
+  if (!Number.isInteger(decimalPlaces) || decimalPlaces < 0) {
+    throw new ExpressionError(
+      "INVALID_ARGUMENTS",
+      "round() decimal places must be a non-negative integer"
+    );
+  }
+  const shifted = Math.round(shiftDecimalPoint(Math.abs(value), decimalPlaces));
+  return Math.sign(value) * shiftDecimalPoint(shifted, -decimalPlaces);
+};
+
+const withArity =
+  <T>(fn: (...args: T[]) => T, minArgs: number, maxArgs = Infinity) =>
+  (...args: T[]): T => {
+    if (args.length < minArgs || args.length > maxArgs) {
+      throw new ExpressionError("INVALID_ARGUMENTS", "Wrong number of arguments");
+    }
+    return fn(...args);
+  };
+
+/**
+ * Built-in functions available to every expression
+ */
+export const mathExpressionFunctions: Readonly<MathExpressionFunctions> = {
+  abs: withArity(Math.abs, 1, 1),
+  max: withArity(Math.max, 1),
+  min: withArity(Math.min, 1),
+  round: withArity(round, 1, 2),
+};
+
+/**
+ * Round half away from zero to the given number of decimal places, without floating point errors
+ */
+const roundRational = (value: Rational, decimalPlaces = createRational(0n)): Rational => {
+  if (decimalPlaces.denominator !== 1n || decimalPlaces.numerator < 0n) {
+    throw new ExpressionError(
+      "INVALID_ARGUMENTS",
+      "round() decimal places must be a non-negative integer"
+    );
+  }
+  const scale = 10n ** decimalPlaces.numerator;
+  return createRational(
+    divideAndRound(value.numerator * scale, value.denominator, "halfExpand"),
+    scale
+  );
+};
+
+/**
+ * Exact versions of `mathExpressionFunctions` for decimal arithmetic
+ */
+const rationalFunctions: { [name: string]: (...args: Rational[]) => Rational } = {
+  abs: withArity(absRational, 1, 1),
+  max: withArity((...args) => args.reduce((a, b) => (compareRational(a, b) >= 0 ? a : b)), 1),
+  min: withArity((...args) => args.reduce((a, b) => (compareRational(a, b) <= 0 ? a : b)), 1),
+  round: withArity(roundRational, 1, 2),
+};
+
+/**
+ * Digits exact results may have, so huge numbers eg. 9^9^9 are not calculated
+ */
+const maxExactDigits = 1000;
+
+/**
+ * Number of digits of the numerator or denominator of a fraction, whichever is longer
+ */
+const getDigits = (value: Rational): number =>
+  Math.max(value.numerator.toString().length, value.denominator.toString().length);
+
+/**
+ * Number operations used by the parser, so it can calculate with floats or exact fractions
+ */
+type Arithmetic<T> = {
+  parse: (literal: string) => T;
+  fromNumber: (value: number) => T;
+  toNumber: (value: T) => number;
+  isFinite: (value: T) => boolean;
+  add: (a: T, b: T) => T;
+  subtract: (a: T, b: T) => T;
+  multiply: (a: T, b: T) => T;
+  divide: (a: T, b: T) => T;
+  power: (base: T, exponent: T) => T;
+  negate: (value: T) => T;
+  sign: (value: T) => number;
+  functions: { [name: string]: (...args: T[]) => T };
+};
+
+const floatArithmetic: Arithmetic<number> = {
+  parse: parseFloat,
+  fromNumber: (value) => value,
+  toNumber: (value) => value,
+  isFinite: Number.isFinite,
+  add: (a, b) => a + b,
+  subtract: (a, b) => a - b,
+  multiply: (a, b) => a * b,
+  divide: (a, b) => a / b,
+  power: Math.pow,
+  negate: (value) => -value,
+  sign: Math.sign,
+  functions: mathExpressionFunctions,
+};
+
+const rationalArithmetic: Arithmetic<Rational> = {
+  parse: parseRational,
+  fromNumber: rationalFromNumber,
+  toNumber: rationalToNumber,
+  // Exact results can be larger than a float eg. 3^999, as long as they are not huge
+  isFinite: (value) => getDigits(value) <= maxExactDigits,
+  add: addRational,
+  subtract: subtractRational,
+  multiply: multiplyRational,
+  divide: divideRational,
+  power: (base, exponent) => {
+    // Calculate exactly unless it's a fractional exponent or the result would be huge eg. 9^9^9
+    if (
+      exponent.denominator === 1n &&
+      getDigits(base) * Math.abs(rationalToNumber(exponent)) <= maxExactDigits
+    ) {
+      return powRational(base, exponent.numerator);
+    }
+    return rationalFromNumber(Math.pow(rationalToNumber(base), rationalToNumber(exponent)));
+  },
+  negate: negateRational,
+  sign: (value) => compareRational(value, createRational(0n)),
+  functions: rationalFunctions,
+};
+
 /**
  * Safely evaluates a mathematical expression string using a custom parser (no eval/Function)
- * Supports: +, -, *, /, % (percentage), parentheses, and decimal numbers
+ * Supports: +, -, *, /, ^ (power), % (percentage), parentheses, decimal numbers,
+ * named variables and function calls (e.g. "round(1234.567, 2)", "max(a, b)"),
+ * the Unicode operators ×, ÷ and − and implicit multiplication (e.g. "2(3 + 4)")
  * @param expr - The mathematical expression to evaluate (e.g., "2 + 2", "10 * (5 + 3)", "50%")
+ * @param options - Evaluation options, e.g. the variables and functions the expression may reference
  * @returns The calculated result as a number, or undefined if invalid
  * @example
  * evaluateMathExpressionSimple("10%")       // 0.1
  * evaluateMathExpressionSimple("100 * 50%") // 50
+ * evaluateMathExpressionSimple("2^10")      // 1024
+ * evaluateMathExpressionSimple("subtotal * 8%", { variables: { subtotal: 200 } }) // 16
+ * evaluateMathExpressionSimple("1.234,5 + 2,5", { decimalSeparator: ",", groupSeparator: "." }) // 1237
  */
-export function evaluateMathExpressionSimple(expr: string): number | undefined {
-  expr = expr.trim();
+export function evaluateMathExpressionSimple(
+  expr: string,
+  options: EvaluateMathExpressionOptions = {}
+): number | undefined {
+  const result = evaluate(expr, options, floatArithmetic);
+  return result.ok ? result.value : undefined;
+}
 
-  // Check length (prevent abuse)
-  if (expr.length > 200 || !expr) {
-    return undefined;
+/**
+ * Same as `evaluateMathExpressionSimple`, but calculates with exact decimals instead of floats
+ * @param expr - The mathematical expression to evaluate
+ * @param options - Evaluation options, including the precision and rounding of results
+ * that cannot be written exactly
+ * @returns The calculated result as a decimal string with "." as decimal separator, or undefined if invalid
+ * @example
+ * evaluateMathExpressionDecimal("0.1 + 0.2") // "0.3"
+ * evaluateMathExpressionDecimal("10 / 3", { divisionPrecision: 2 }) // "3.33"
+ */
+export function evaluateMathExpressionDecimal(
+  expr: string,
+  options: EvaluateMathExpressionDecimalOptions = {}
+): string | undefined {
+  const result = evaluateMathExpression(expr, { ...options, arithmetic: "decimal" });
+  return result.ok ? result.value : undefined;
+}
+
+/**
+ * Evaluates a mathematical expression and explains why when it is invalid
+ * @param expr - The mathematical expression to evaluate
+ * @param options - Same options as `evaluateMathExpressionDecimal`, and whether to calculate
+ * with exact decimals or floats
+ * @returns `{ ok: true, value }` with the result as a decimal string with "." as decimal separator,
+ * or `{ ok: false, error }` with the error code, message and character offset
+ * @example
+ * evaluateMathExpression("10 / 4") // { ok: true, value: "2.5" }
+ * evaluateMathExpression("2 * (3 + 4") // { ok: false, error: { code: "MISSING_PARENTHESIS", message: "Missing closing parenthesis", offset: 4 } }
+ */
+export function evaluateMathExpression(
+  expr: string,
+  options: EvaluateMathExpressionResultOptions = {}
+): MathExpressionResult {
+  if (options.arithmetic === "float") {
+    const result = evaluate(expr, options, floatArithmetic);
+    return result.ok
+      ? { ok: true, value: toDecimalString(rationalFromNumber(result.value)) }
+      : result;
   }
 
-  // Security: only digits, decimal points, spaces, and basic operators
-  if (!/^[\d.\s+\-*/%()]+$/.test(expr)) {
-    return undefined;
+  const { divisionPrecision = 20, roundingMode = "halfExpand" } = options;
+  const result = evaluate(expr, options, rationalArithmetic);
+
+  if (!result.ok) {
+    return result;
   }
 
+  return {
+    ok: true,
+    value:
+      getExactDecimals(result.value) !== undefined
+        ? toDecimalString(result.value)
+        : rationalToDecimalString(result.value, divisionPrecision, roundingMode),
+  };
+}
+
+/**
+ * Write a value that has a finite number of decimals exactly eg. 1e21 as "1000000000000000000000"
+ */
+const toDecimalString = (value: Rational): string =>
+  rationalToDecimalString(value, getExactDecimals(value)!);
+
+/**
+ * Replace part of a string with spaces, so offsets in the rest stay the same
+ */
+const blankOut = (value: string, start: number, length: number): string =>
+  `${value.slice(0, start)}${" ".repeat(length)}${value.slice(start + length)}`;
+
+function evaluate<T>(
+  expr: string,
+  options: EvaluateMathExpressionOptions,
+  arithmetic: Arithmetic<T>
+): MathExpressionResult<T> {
+  const { prefix = "", suffix = "", decimalSeparator, groupSeparator = "" } = options;
+  // Prefix and suffix of each number, unless they would be mistaken for an operator eg. % or -
+  const getOperandAffix = (affix: string) =>
+    /^[^\d\s+\-*/%^(),;]+$/.test(affix.trim()) ? affix.trim() : "";
+  const tokenizerOptions: TokenizerOptions = {
+    decimalSeparator: decimalSeparator || ".",
+    groupSeparator: groupSeparator !== decimalSeparator ? groupSeparator : "",
+    prefix: getOperandAffix(prefix),
+    suffix: getOperandAffix(suffix),
+    abbreviations: options.abbreviations !== false,
+    operators:
+      options.operators || (Object.keys(mathExpressionOperators) as MathExpressionOperator[]),
+  };
+
+  // Blank out the prefix and suffix of the expression instead of removing them,
+  // so error offsets match the input
+  const leadingSpace = expr.length - expr.replace(/^\s+/, "").length;
+  if (prefix && expr.startsWith(prefix, leadingSpace)) {
+    expr = blankOut(expr, leadingSpace, prefix.length);
+  }
+  const trimmedEnd = expr.replace(/\s+$/, "").length;
+  if (suffix && expr.slice(0, trimmedEnd).endsWith(suffix)) {
+    expr = blankOut(expr, trimmedEnd - suffix.length, suffix.length);
+  }
+  const start = expr.search(/\S/);
+
   try {
-    const result = parseExpression(expr);
-    return Number.isFinite(result) ? result : undefined;
-  } catch {
-    return undefined;
+    if (start === -1) {
+      throw new ExpressionError("EMPTY", "Expression is empty", 0);
+    }
+
+    // Check length (prevent abuse)
+    const { maxLength = 200 } = options;
+    if (expr.trim().length > maxLength) {
+      throw new ExpressionError(
+        "TOO_LONG",
+        `Expression is longer than ${maxLength} characters`,
+        start + maxLength
+      );
+    }
+
+    // Security: only digits, separators, affixes, spaces, basic operators, identifiers and argument separators
+    const allowedSeparators = [
+      tokenizerOptions.decimalSeparator,
+      tokenizerOptions.groupSeparator,
+      tokenizerOptions.prefix,
+      tokenizerOptions.suffix,
+    ]
+      .filter(Boolean)
+      .map(escapeRegExp)
+      .join("|");
+    const allowed = new RegExp(`^(?:${allowedSeparators}|[\\d.\\s+\\-*/%^×÷−()A-Za-z_,;])*`);
+    const allowedLength = allowed.exec(expr)![0].length;
+    if (allowedLength < expr.length) {
+      throw new ExpressionError("INVALID_CHARACTER", "Invalid character", allowedLength);
+    }
+
+    const value = parseExpression(
+      tokenize(expr, tokenizerOptions),
+      expr.replace(/\s+$/, "").length,
+      options,
+      arithmetic
+    );
+    return { ok: true, value };
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) {
+      throw error;
+    }
+    return {
+      ok: false,
+      error: { code: error.code, message: error.message, offset: error.offset || 0 },
+    };
   }
 }
 
 // Tokenizer
-type Token = { type: "number"; value: number } | { type: "op"; value: string } | { type: "paren"; value: "(" | ")" };
-
-function tokenize(expr: string): Token[] {
+const getOperator = (char: string): MathExpressionOperator | undefined =>
+  (Object.keys(mathExpressionOperators) as MathExpressionOperator[]).find((operator) =>
+    mathExpressionOperators[operator].includes(char)
+  );
+
+type Token = (
+  | { type: "number"; value: string }
+  | { type: "identifier"; value: string }
+  | { type: "op"; value: string }
+  | { type: "paren"; value: "(" | ")" }
+  | { type: "separator"; value: string }
+) & { offset: number };
+
+function tokenize(expr: string, options: TokenizerOptions): Token[] {
+  const { decimalSeparator, groupSeparator, prefix, suffix, abbreviations, operators } = options;
   const tokens: Token[] = [];
   let i = 0;
 
+  function assertOperatorAllowed(operator: MathExpressionOperator, offset: number): void {
+    if (!operators.includes(operator)) {
+      throw new ExpressionError(
+        "OPERATOR_NOT_ALLOWED",
+        `Operator "${operator}" is not allowed`,
+        offset
+      );
+    }
+  }
+
   while (i < expr.length) {
     const char = expr[i]!;
 
@@ -44,42 +569,123 @@ function tokenize(expr: string): Token[] {
       continue;
     }
 
-    // Numbers (including decimals)
-    if (/\d/.test(char)) {
+    // Prefix of a number eg. "$20 + $5.50"
+    if (prefix && expr.startsWith(prefix, i)) {
+      const next = expr.slice(i + prefix.length).replace(/^\s+/, "");
+      if (!/^[\d\-(]/.test(next) && !next.startsWith(decimalSeparator)) {
+        throw new ExpressionError("UNEXPECTED_TOKEN", "Unexpected token", i);
+      }
+      i += prefix.length;
+      continue;
+    }
+
+    // Suffix of a number eg. "20 € + 5,50 €"
+    if (suffix && expr.startsWith(suffix, i)) {
+      const previous = tokens[tokens.length - 1];
+      if (previous?.type !== "number" && !(previous?.type === "paren" && previous.value === ")")) {
+        throw new ExpressionError("UNEXPECTED_TOKEN", "Unexpected token", i);
+      }
+      i += suffix.length;
+      continue;
+    }
+
+    // Abbreviated numbers eg. "1.5k", read the same as plain values
+    const abbreviated = abbreviations ? readAbbrValue(expr, i, decimalSeparator) : undefined;
+    if (abbreviated) {
+      tokens.push({ type: "number", value: abbreviated.value, offset: i });
+      i += abbreviated.length;
+      continue;
+    }
+
+    // Numbers (including decimals and group separators)
+    const startsWithDecimal =
+      expr.startsWith(decimalSeparator, i) && /\d/.test(expr[i + decimalSeparator.length] || "");
+    if (/\d/.test(char) || startsWithDecimal) {
+      const offset = i;
       let num = "";
-      while (i < expr.length && /[\d.]/.test(expr[i]!)) {
-        num += expr[i];
+      let hasDecimals = false;
+      while (i < expr.length) {
+        if (/\d/.test(expr[i]!)) {
+          num += expr[i];
+          i++;
+        } else if (!hasDecimals && expr.startsWith(decimalSeparator, i)) {
+          num += ".";
+          hasDecimals = true;
+          i += decimalSeparator.length;
+        } else if (
+          !hasDecimals &&
+          groupSeparator &&
+          expr.startsWith(groupSeparator, i) &&
+          /^\d{3}(?!\d)/.test(expr.slice(i + groupSeparator.length))
+        ) {
+          i += groupSeparator.length;
+        } else {
+          break;
+        }
+      }
+      tokens.push({ type: "number", value: num, offset });
+      continue;
+    }
+
+    // Identifiers (variable and function names)
+    if (/[A-Za-z_]/.test(char)) {
+      const offset = i;
+      let name = "";
+      while (i < expr.length && /\w/.test(expr[i]!)) {
+        name += expr[i];
         i++;
       }
-      tokens.push({ type: "number", value: parseFloat(num) });
+      tokens.push({ type: "identifier", value: name, offset });
       continue;
     }
 
     // Operators
-    if (/[+\-*/%]/.test(char)) {
-      tokens.push({ type: "op", value: char });
+    const operator = getOperator(char);
+    if (operator) {
+      assertOperatorAllowed(operator, i);
+      tokens.push({ type: "op", value: operator, offset: i });
       i++;
       continue;
     }
 
     // Parentheses
     if (char === "(" || char === ")") {
-      tokens.push({ type: "paren", value: char });
+      // Implicit multiplication eg. "2(3 + 4)" or "(1 + 2)(3 + 4)"
+      const previous = tokens[tokens.length - 1];
+      if (char === "(" && (previous?.type === "number" || previous?.value === ")")) {
+        assertOperatorAllowed("*", i);
+        tokens.push({ type: "op", value: "*", offset: i });
+      }
+      tokens.push({ type: "paren", value: char, offset: i });
+      i++;
+      continue;
+    }
+
+    // Function argument separator, "," is the decimal separator in some locales so ";" is accepted too
+    if (char === ";" || (char === "," && decimalSeparator !== ",")) {
+      tokens.push({ type: "separator", value: char, offset: i });
       i++;
       continue;
     }
 
     // Invalid character
-    throw new Error("Invalid character");
+    throw new ExpressionError("INVALID_CHARACTER", "Invalid character", i);
   }
 
   return tokens;
 }
 
 // Recursive descent parser
-function parseExpression(expr: string): number {
-  const tokens = tokenize(expr);
+function parseExpression<T>(
+  tokens: Token[],
+  end: number,
+  options: EvaluateMathExpressionOptions,
+  arithmetic: Arithmetic<T>
+): T {
+  const { variables = {}, functions = {}, percentageMode = "fraction" } = options;
   let pos = 0;
+  // Set when the last parsed term is a percentage eg. 10%, for calculator percentages
+  let isPercentageTerm = false;
 
   function peek(): Token | undefined {
     return tokens[pos];
@@ -89,88 +695,213 @@ function parseExpression(expr: string): number {
     return tokens[pos++]!;
   }
 
+  function fail(code: MathExpressionErrorCode, message: string, offset: number): never {
+    throw new ExpressionError(code, message, offset);
+  }
+
+  // Run the calculation of an operator or function, so its errors point at that token
+  function calculate(token: Token, operation: () => T): T {
+    let result: T;
+    try {
+      result = operation();
+    } catch (error) {
+      if (error instanceof ExpressionError && error.offset !== undefined) throw error;
+      if (error instanceof ExpressionError) fail(error.code, error.message, token.offset);
+      fail("NOT_FINITE", "Result is not a finite number", token.offset);
+    }
+    if (!arithmetic.isFinite(result)) {
+      fail("NOT_FINITE", "Result is not a finite number", token.offset);
+    }
+    return result;
+  }
+
+  function divide(token: Token, left: T, right: T): T {
+    if (arithmetic.sign(right) === 0) fail("DIVISION_BY_ZERO", "Division by zero", token.offset);
+    return calculate(token, () => arithmetic.divide(left, right));
+  }
+
+  function consumeClosingParenthesis(open: Token): void {
+    const token = peek();
+    if (!token) fail("MISSING_PARENTHESIS", "Missing closing parenthesis", open.offset);
+    if (token.type !== "paren" || token.value !== ")") {
+      fail("UNEXPECTED_TOKEN", "Unexpected token", token.offset);
+    }
+    consume(); // consume ')'
+  }
+
   // Parse addition and subtraction (lowest precedence)
-  function parseAddSub(): number {
+  function parseAddSub(): T {
     let left = parseMulDiv();
 
     while (peek()?.type === "op" && (peek()!.value === "+" || peek()!.value === "-")) {
-      const op = consume().value;
-      const right = parseMulDiv();
-      left = op === "+" ? left + right : left - right;
+      const op = consume();
+      let right = parseMulDiv();
+      const l = left;
+      // a + b% adds b% of a
+      if (percentageMode === "calculator" && isPercentageTerm) {
+        const percentage = right;
+        right = calculate(op, () => arithmetic.multiply(l, percentage));
+      }
+      const r = right;
+      left = calculate(op, () =>
+        op.value === "+" ? arithmetic.add(l, r) : arithmetic.subtract(l, r)
+      );
     }
 
     return left;
   }
 
   // Parse multiplication and division (higher precedence)
-  function parseMulDiv(): number {
+  function parseMulDiv(): T {
     let left = parsePercentage();
+    let isPercentage = isPercentageTerm;
 
     while (peek()?.type === "op" && (peek()!.value === "*" || peek()!.value === "/")) {
-      const op = consume().value;
+      const op = consume();
       const right = parsePercentage();
-      if (op === "*") left = left * right;
-      else left = left / right;
+      const l = left;
+      if (op.value === "*") left = calculate(op, () => arithmetic.multiply(l, right));
+      else left = divide(op, left, right);
+      isPercentage = false;
     }
 
+    isPercentageTerm = isPercentage;
     return left;
   }
 
   // Parse percentage (postfix operator)
-  function parsePercentage(): number {
+  function parsePercentage(): T {
     let left = parseUnary();
+    isPercentageTerm = false;
 
     // Check for % after the value
     if (peek()?.type === "op" && peek()!.value === "%") {
-      consume(); // consume '%'
-      left = left / 100;
+      const op = consume(); // consume '%'
+      left = divide(op, left, arithmetic.parse("100"));
+      isPercentageTerm = true;
     }
 
     return left;
   }
 
   // Parse unary operators (-, +)
-  function parseUnary(): number {
+  function parseUnary(): T {
     if (peek()?.type === "op" && (peek()!.value === "-" || peek()!.value === "+")) {
       const op = consume().value;
       const value = parseUnary();
-      return op === "-" ? -value : value;
+      return op === "-" ? arithmetic.negate(value) : value;
+    }
+    return parsePower();
+  }
+
+  // Parse exponentiation (right-associative, binds tighter than unary minus so -2^2 = -4)
+  function parsePower(): T {
+    const base = parsePrimary();
+
+    if (peek()?.type === "op" && peek()!.value === "^") {
+      const op = consume(); // consume '^'
+      const exponent = parseUnary();
+      if (arithmetic.sign(base) === 0 && arithmetic.sign(exponent) < 0) {
+        fail("DIVISION_BY_ZERO", "Division by zero", op.offset);
+      }
+      return calculate(op, () => arithmetic.power(base, exponent));
+    }
+
+    return base;
+  }
+
+  // Parse function call arguments, the opening parenthesis has already been consumed
+  function parseArguments(open: Token): T[] {
+    const args: T[] = [];
+
+    if (peek()?.type === "paren" && peek()!.value === ")") {
+      consume(); // consume ')'
+      return args;
     }
-    return parsePrimary();
+
+    args.push(parseAddSub());
+    while (peek()?.type === "separator") {
+      consume(); // consume ','
+      args.push(parseAddSub());
+    }
+
+    consumeClosingParenthesis(open);
+    return args;
   }
 
-  // Parse primary expressions (numbers and parentheses)
-  function parsePrimary(): number {
+  // Parse primary expressions (numbers, variables, function calls and parentheses)
+  function parsePrimary(): T {
     const token = peek();
 
     if (!token) {
-      throw new Error("Unexpected end of expression");
+      return fail("UNEXPECTED_END", "Unexpected end of expression", end);
     }
 
     // Number
     if (token.type === "number") {
-      return consume().value as number;
+      return arithmetic.parse(consume().value);
+    }
+
+    // Function call
+    const next = tokens[pos + 1];
+    if (token.type === "identifier" && next?.type === "paren" && next.value === "(") {
+      const name = consume().value as string;
+      const args = parseArguments(consume());
+
+      // Custom functions take precedence over built-in ones and calculate with numbers
+      if (
+        Object.prototype.hasOwnProperty.call(functions, name) &&
+        typeof functions[name] === "function"
+      ) {
+        const fn = functions[name]!;
+        return calculate(token, () => {
+          let result: number;
+          try {
+            result = fn(...args.map(arithmetic.toNumber));
+          } catch (error) {
+            const reason = error instanceof Error ? `: ${error.message}` : "";
+            throw new ExpressionError("FUNCTION_ERROR", `Function "${name}" failed${reason}`);
+          }
+          return arithmetic.fromNumber(result);
+        });
+      }
+      if (Object.prototype.hasOwnProperty.call(arithmetic.functions, name)) {
+        return calculate(token, () => arithmetic.functions[name]!(...args));
+      }
+      return fail("UNKNOWN_FUNCTION", `Unknown function "${name}"`, token.offset);
+    }
+
+    // Variable
+    if (token.type === "identifier") {
+      const name = consume().value as string;
+      const value = Object.prototype.hasOwnProperty.call(variables, name)
+        ? variables[name]
+        : undefined;
+      if (typeof value !== "number") {
+        return fail("UNKNOWN_VARIABLE", `Unknown variable "${name}"`, token.offset);
+      }
+      if (!Number.isFinite(value)) {
+        return fail("NOT_FINITE", `Variable "${name}" is not a finite number`, token.offset);
+      }
+      return arithmetic.fromNumber(value);
     }
 
     // Parentheses
     if (token.type === "paren" && token.value === "(") {
       consume(); // consume '('
       const result = parseAddSub();
-      if (peek()?.type !== "paren" || peek()!.value !== ")") {
-        throw new Error("Missing closing parenthesis");
-      }
-      consume(); // consume ')'
+      consumeClosingParenthesis(token);
       return result;
     }
 
-    throw new Error("Unexpected token");
+    return fail("UNEXPECTED_TOKEN", "Unexpected token", token.offset);
   }
 
   const result = parseAddSub();
 
   // Ensure all tokens were consumed
   if (pos < tokens.length) {
-    throw new Error("Unexpected token after expression");
+    fail("UNEXPECTED_TOKEN", "Unexpected token after expression", tokens[pos]!.offset);
   }
 
   return result;
@@ -0,0 +1,66 @@
+import { escapeRegExp } from './escapeRegExp';
+
+/**
+ * Largest exponent expanded, like the largest of a JavaScript number
+ */
+const MAX_EXPONENT = 308;
+
+/**
+ * Check if value contains a number in exponent notation eg. "1.2e-7" or "3E9"
+ */
+export const hasExponent = (value: string): boolean => /\d[eE]/.test(value);
+
+/**
+ * Write a number in exponent notation as a plain decimal string with the decimal separator,
+ * by moving the decimal separator without converting it to a number.
+ * A missing exponent counts as 0 eg. "1.2e-" > "1.2", as it is typed
+ *
+ * Eg. "1.2e-7" > "0.00000012", "3E9" > "3000000000", "$-1,5e3" > "$-1500" with ","
+ *
+ * Returns an empty string for exponents beyond 308
+ */
+export const expandExponent = (
+  value: string,
+  decimalSeparator = '.',
+  groupSeparator = ','
+): string => {
+  const separator = escapeRegExp(decimalSeparator);
+  const group = escapeRegExp(groupSeparator);
+  const reg = new RegExp(
+    `(\\d[\\d${group}]*${separator ? `(?:${separator}\\d*)?|${separator}\\d+` : ''})[eE]([+-]?\\d*)`
+  );
+  const match = reg.exec(value);
+
+  if (!match) {
+    return value;
+  }
+
+  const [notation, mantissa, exponent] = match;
+  const power = Number(exponent.replace(/^[+-]?$/, '0'));
+
+  if (Math.abs(power) > MAX_EXPONENT) {
+    return '';
+  }
+
+  const number = groupSeparator ? mantissa.split(groupSeparator).join('') : mantissa;
+  const [int, fraction = ''] = decimalSeparator ? number.split(decimalSeparator) : [number];
+  const digits = `${int}${fraction}`;
+  const point = int.length + power;
+
+  // Remove leading zeros moved into the integer part eg. "0.012e2" > "1.2"
+  const intDigits =
+    point <= 0
+      ? '0'
+      : digits
+          .slice(0, point)
+          .padEnd(point, '0')
+          .replace(/^0+(?=\d)/, '');
+  const fractionDigits = point <= 0 ? `${'0'.repeat(-point)}${digits}` : digits.slice(point);
+
+  return value.replace(
+    notation,
+    decimalSeparator && fractionDigits
+      ? `${intDigits}${decimalSeparator}${fractionDigits}`
+      : intDigits
+  );
+};
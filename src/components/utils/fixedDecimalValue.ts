@@ -1,7 +1,11 @@
+import { RoundingMode } from './rational';
+import { roundValue } from './roundValue';
+
 export const fixedDecimalValue = (
   value: string,
   decimalSeparator: string,
-  fixedDecimalLength?: number
+  fixedDecimalLength?: number,
+  roundingMode?: RoundingMode
 ): string => {
   if (fixedDecimalLength !== undefined && value.length > 1) {
     if (fixedDecimalLength === 0) {
@@ -16,7 +20,9 @@ export const fixedDecimalValue = (
       }
 
       if (decimals.length > fixedDecimalLength) {
-        return `${int}${decimalSeparator}${decimals.slice(0, fixedDecimalLength)}`;
+        return roundingMode
+          ? roundValue(value, decimalSeparator, fixedDecimalLength, roundingMode)
+          : `${int}${decimalSeparator}${decimals.slice(0, fixedDecimalLength)}`;
       }
     }
 
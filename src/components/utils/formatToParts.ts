@@ -0,0 +1,102 @@
+import { parseRational, rationalToDecimalString } from './rational';
+
+/**
+ * `Intl.NumberFormat` that formats decimal strings exactly, not included in the TypeScript lib
+ */
+type StringNumberFormat = {
+  formatToParts: (value: string) => Intl.NumberFormatPart[];
+};
+
+let stringInputSupported: boolean | undefined;
+
+/**
+ * Whether `Intl.NumberFormat` formats decimal strings without converting them to a number
+ */
+export const supportsStringInput = (): boolean => {
+  if (stringInputSupported === undefined) {
+    const numberFormatter = new Intl.NumberFormat('en-US', { useGrouping: false });
+    const parts = (numberFormatter as unknown as StringNumberFormat).formatToParts(
+      '9007199254740993'
+    );
+    stringInputSupported = parts.map(({ value }) => value).join('') === '9007199254740993';
+  }
+
+  return stringInputSupported;
+};
+
+/**
+ * Format a decimal string to parts without converting it to a number,
+ * which would change values beyond `Number.MAX_SAFE_INTEGER` or with more than 15 significant digits
+ *
+ * Eg. "12345678901234567.89" > "12,345,678,901,234,567.89"
+ */
+export const formatToParts = (
+  numberFormatter: Intl.NumberFormat,
+  value: string
+): Intl.NumberFormatPart[] =>
+  supportsStringInput()
+    ? (numberFormatter as unknown as StringNumberFormat).formatToParts(value)
+    : formatToPartsManually(numberFormatter, value);
+
+/**
+ * Fallback of `formatToParts` where `Intl.NumberFormat` only formats numbers
+ *
+ * Takes the currency, sign and separators from the formatter, and groups the digits by three.
+ * Scientific and engineering notation are formatted from the number
+ */
+export const formatToPartsManually = (
+  numberFormatter: Intl.NumberFormat,
+  value: string
+): Intl.NumberFormatPart[] => {
+  const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  const {
+    minimumFractionDigits = 0,
+    maximumFractionDigits = 20,
+    notation = 'standard',
+  } = numberFormatter.resolvedOptions() as Intl.ResolvedNumberFormatOptions & {
+    notation?: string;
+  };
+
+  if (!match || !(match[2] || match[3]) || notation !== 'standard') {
+    return numberFormatter.formatToParts(Number(value));
+  }
+
+  const [int, fraction = ''] = rationalToDecimalString(parseRational(value), maximumFractionDigits)
+    .replace('-', '')
+    .split('.');
+  const fractionDigits = fraction.padEnd(minimumFractionDigits, '0');
+
+  const group = numberFormatter.formatToParts(1000000).find(({ type }) => type === 'group');
+  const decimal = numberFormatter.formatToParts(0.5).find(({ type }) => type === 'decimal');
+
+  const digitGroups = (group && int.match(/\d{1,3}(?=(\d{3})*$)/g)) || [int];
+  const integerParts = digitGroups.reduce<Intl.NumberFormatPart[]>(
+    (parts, digits, i) => [
+      ...parts,
+      ...(i > 0 && group ? [group] : []),
+      { type: 'integer', value: digits },
+    ],
+    []
+  );
+  const fractionParts: Intl.NumberFormatPart[] = fractionDigits
+    ? [
+        { type: 'decimal', value: decimal ? decimal.value : '.' },
+        { type: 'fraction', value: fractionDigits },
+      ]
+    : [];
+
+  // Format one with the same sign, to take the currency and sign from the formatter
+  return numberFormatter
+    .formatToParts(match[1] ? -1 : 1)
+    .reduce<Intl.NumberFormatPart[]>((parts, part) => {
+      if (part.type === 'integer') {
+        return [...parts, ...integerParts, ...fractionParts];
+      }
+
+      if (part.type === 'decimal' || part.type === 'fraction') {
+        return parts;
+      }
+
+      return [...parts, part];
+    }, []);
+};
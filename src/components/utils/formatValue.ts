@@ -1,5 +1,8 @@
 import { escapeRegExp } from './escapeRegExp';
 import { getSuffix } from './getSuffix';
+import { formatToParts } from './formatToParts';
+import { roundValue } from './roundValue';
+import { applySignificantDigits } from './significantDigits';
 import { FormatValueOptions } from './formatValue.types';
 
 /**
@@ -10,11 +13,17 @@ export const formatValue = (options: FormatValueOptions): string => {
     value: _value,
     decimalSeparator,
     intlConfig,
-    decimalScale,
+    decimalScale: _decimalScale,
+    roundingMode,
+    significantDigits,
+    notation = 'standard',
     prefix = '',
     suffix = '',
   } = options;
 
+  // Significant digits take precedence over decimal scale
+  const decimalScale = significantDigits === undefined ? _decimalScale : undefined;
+
   if (_value === '' || _value === undefined) {
     return '';
   }
@@ -36,24 +45,47 @@ export const formatValue = (options: FormatValueOptions): string => {
     value = '0' + value;
   }
 
-  const { locale, currency, ...formatOptions } = intlConfig || {};
+  const {
+    locale,
+    currency,
+    minimumFractionDigits = 0,
+    maximumFractionDigits,
+    ...formatOptions
+  } = intlConfig || {};
+
+  if (roundingMode && decimalScale !== undefined) {
+    value = roundValue(value, '.', decimalScale, roundingMode);
+  }
+
+  // Respect the maximum fraction digits of intlConfig, unless overridden by decimalScale
+  if (decimalScale === undefined && maximumFractionDigits !== undefined) {
+    value = roundValue(value, '.', maximumFractionDigits, roundingMode || 'trunc');
+  }
+
+  if (significantDigits !== undefined) {
+    value = applySignificantDigits(value, '.', significantDigits, roundingMode);
+  }
 
   const defaultNumberFormatOptions = {
     ...formatOptions,
-    minimumFractionDigits: decimalScale || 0,
+    minimumFractionDigits: decimalScale !== undefined ? decimalScale : minimumFractionDigits,
     maximumFractionDigits: 20,
   };
 
+  // Intl notation, not included in the TypeScript lib
+  const notationOptions = notation !== 'standard' ? ({ notation } as Intl.NumberFormatOptions) : {};
+
   const numberFormatter = intlConfig
     ? new Intl.NumberFormat(locale, {
         ...defaultNumberFormatOptions,
+        ...notationOptions,
         ...(currency && { style: 'currency', currency }),
       })
-    : new Intl.NumberFormat(undefined, defaultNumberFormatOptions);
+    : new Intl.NumberFormat(undefined, { ...defaultNumberFormatOptions, ...notationOptions });
 
-  const parts = numberFormatter.formatToParts(Number(value));
+  const parts = formatToParts(numberFormatter, value);
 
-  let formatted = replaceParts(parts, options);
+  let formatted = replaceParts(parts, { ...options, decimalScale });
 
   // Does intl formatting add a suffix?
   const intlSuffix = getSuffix(formatted, { ...options });
@@ -63,12 +95,12 @@ export const formatValue = (options: FormatValueOptions): string => {
 
   const [, decimals] = value.match(RegExp('\\d+\\.(\\d+)')) || [];
 
-  // Keep original decimal padding if no decimalScale
-  if (decimalScale === undefined && decimals && decimalSeparator) {
+  // Keep original decimal padding if no decimalScale, padded to the minimum fraction digits of intlConfig
+  if (decimalScale === undefined && decimals && decimalSeparator && notation === 'standard') {
     if (formatted.includes(decimalSeparator)) {
       formatted = formatted.replace(
         RegExp(`(\\d+)(${escapeRegExp(decimalSeparator)})(\\d+)`, 'g'),
-        `$1$2${decimals}`
+        `$1$2${decimals.padEnd(minimumFractionDigits, '0')}`
       );
     } else {
       if (intlSuffix && !suffix) {
@@ -95,7 +127,7 @@ export const formatValue = (options: FormatValueOptions): string => {
 };
 
 /**
- * Before converting to Number, decimal separator has to be .
+ * Before formatting with Intl, decimal separator has to be .
  */
 const replaceDecimalSeparator = (
   value: string,
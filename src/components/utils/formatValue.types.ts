@@ -1,4 +1,5 @@
-import { IntlConfig } from '../CurrencyInputProps';
+import { CurrencyInputSignificantDigits, IntlConfig } from '../CurrencyInputProps';
+import { RoundingMode } from './rational';
 
 export type FormatValueOptions = {
   /**
@@ -41,6 +42,32 @@ export type FormatValueOptions = {
    */
   decimalScale?: number;
 
+  /**
+   * How to round decimals beyond `decimalScale`, on the decimal string
+   *
+   * Eg. 1.239 -> 1.24 with 'halfExpand'
+   *
+   * Default = truncate
+   */
+  roundingMode?: RoundingMode;
+
+  /**
+   * Round to the maximum significant digits with `roundingMode` and pad to the minimum,
+   * a number sets both. Takes precedence over `decimalScale`
+   *
+   * Eg. 0.0012345678 -> 0.0012345 or 1.5 -> 1.5000 with 5
+   */
+  significantDigits?: number | CurrencyInputSignificantDigits;
+
+  /**
+   * Format in scientific or engineering notation with Intl, decimals apply to the mantissa
+   *
+   * Eg. 0.00000012 -> 1.2E-7 with 'scientific' or 120E-9 with 'engineering'
+   *
+   * Default = 'standard'
+   */
+  notation?: 'standard' | 'scientific' | 'engineering';
+
   /**
    * Prefix
    */
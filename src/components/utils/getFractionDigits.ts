@@ -0,0 +1,31 @@
+import { IntlConfig } from '../CurrencyInputProps';
+
+type FractionDigits = {
+  minimumFractionDigits: number;
+  maximumFractionDigits: number;
+};
+
+/**
+ * Get fraction digits of the currency in intlConfig, or of the `minimumFractionDigits` and
+ * `maximumFractionDigits` set in intlConfig, eg. 2 for USD, 0 for JPY and 3 for BHD
+ *
+ * Undefined if intlConfig has neither
+ */
+export const getFractionDigits = (intlConfig?: IntlConfig): FractionDigits | undefined => {
+  if (
+    !intlConfig ||
+    (!intlConfig.currency &&
+      intlConfig.minimumFractionDigits === undefined &&
+      intlConfig.maximumFractionDigits === undefined)
+  ) {
+    return undefined;
+  }
+
+  const { locale, currency, ...formatOptions } = intlConfig;
+  const { minimumFractionDigits = 0, maximumFractionDigits = 20 } = new Intl.NumberFormat(locale, {
+    ...formatOptions,
+    ...(currency && { currency, style: 'currency' }),
+  }).resolvedOptions();
+
+  return { minimumFractionDigits, maximumFractionDigits };
+};
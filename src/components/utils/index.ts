@@ -1,11 +1,45 @@
+export { clampValue, getOutOfRange } from './checkRange';
 export { cleanValue } from './cleanValue';
 export type { CleanValueOptions } from './cleanValue';
-export { evaluateMathExpressionSimple } from './evaluate-math-expression-simple';
+export {
+  evaluateMathExpression,
+  evaluateMathExpressionSimple,
+  evaluateMathExpressionDecimal,
+  mathExpressionFunctions,
+  mathExpressionOperators,
+} from './evaluate-math-expression-simple';
+export type {
+  EvaluateMathExpressionOptions,
+  EvaluateMathExpressionDecimalOptions,
+  EvaluateMathExpressionResultOptions,
+  MathExpressionArithmetic,
+  MathExpressionError,
+  MathExpressionErrorCode,
+  MathExpressionFunctions,
+  MathExpressionOperator,
+  MathExpressionPercentageMode,
+  MathExpressionResult,
+  MathExpressionVariables,
+} from './evaluate-math-expression-simple';
+export { expandExponent, hasExponent } from './expandExponent';
 export { fixedDecimalValue } from './fixedDecimalValue';
 export { formatValue } from './formatValue';
 export type { FormatValueOptions } from './formatValue.types';
+export { getFractionDigits } from './getFractionDigits';
 export { getLocaleConfig } from './getLocaleConfig';
 export { getSuffix } from './getSuffix';
 export { isNumber } from './isNumber';
+export { fromMinorUnits, toMinorUnits } from './minorUnits';
 export { padTrimValue } from './padTrimValue';
+export {
+  addRational,
+  createRational,
+  getExactDecimals,
+  parseRational,
+  rationalToDecimalString,
+} from './rational';
+export type { Rational, RoundingMode } from './rational';
 export { repositionCursor } from './repositionCursor';
+export { applySignificantDigits } from './significantDigits';
+export { isStepMultiple, snapValue, stepValue } from './stepValue';
+export { isSameValidation, validateValue } from './validateValue';
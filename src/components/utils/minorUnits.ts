@@ -0,0 +1,37 @@
+import {
+  createRational,
+  divideAndRound,
+  divideRational,
+  getExactDecimals,
+  parseRational,
+  rationalToDecimalString,
+  RoundingMode,
+} from './rational';
+
+/**
+ * Convert a value in minor units to a plain decimal string in major units,
+ * with "." as decimal separator, without floating point math
+ *
+ * Eg. 12345 with scale 2 > "123.45"
+ */
+export const fromMinorUnits = (value: number | bigint | string, scale: number): string => {
+  const major = divideRational(parseRational(String(value)), createRational(10n ** BigInt(scale)));
+
+  return rationalToDecimalString(major, getExactDecimals(major) || 0);
+};
+
+/**
+ * Convert a plain decimal string in major units, with "." as decimal separator, to minor units.
+ * Decimals beyond the minor unit are rounded
+ *
+ * Eg. "123.45" with scale 2 > 12345n
+ */
+export const toMinorUnits = (
+  value: string,
+  scale: number,
+  roundingMode: RoundingMode = 'halfExpand'
+): bigint => {
+  const { numerator, denominator } = parseRational(value);
+
+  return divideAndRound(numerator * 10n ** BigInt(scale), denominator, roundingMode);
+};
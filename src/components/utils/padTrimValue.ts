@@ -1,7 +1,14 @@
+import { RoundingMode } from './rational';
+import { roundValue } from './roundValue';
+
+/**
+ * Pad or trim decimals to `decimalScale`, extra decimals are rounded with `roundingMode` or truncated
+ */
 export const padTrimValue = (
   value: string,
   decimalSeparator?: string,
-  decimalScale?: number
+  decimalScale?: number,
+  roundingMode?: RoundingMode
 ): string => {
   if (
     decimalScale === undefined ||
@@ -17,7 +24,9 @@ export const padTrimValue = (
     return '';
   }
 
-  const [int, decimals] = value.split(decimalSeparator);
+  const [int, decimals] = (
+    roundingMode ? roundValue(value, decimalSeparator, decimalScale, roundingMode) : value
+  ).split(decimalSeparator);
 
   if (decimalScale === 0) {
     return int;
@@ -21,20 +21,55 @@ export const abbrValue = (value: number, decimalSeparator = '.', _decimalPlaces
 
 type AbbrMap = { [key: string]: number };
 
-const abbrMap: AbbrMap = { k: 1000, m: 1000000, b: 1000000000 };
+/**
+ * Power of ten of each abbreviation
+ */
+const abbrMap: AbbrMap = { k: 3, m: 6, b: 9 };
+
+const getAbbrPattern = (decimalSeparator: string): string =>
+  `(\\d+(?:${escapeRegExp(decimalSeparator)}\\d*)?)([kmb])`;
+
+/**
+ * Write abbreviated number in exponent notation with "." as decimal separator eg. 1.5k = "1.5e3"
+ */
+const toExponentNotation = (digits: string, abbr: string, decimalSeparator: string): string =>
+  `${digits.replace(decimalSeparator, '.')}e${abbrMap[abbr.toLowerCase()]}`;
 
 /**
  * Parse a value with abbreviation e.g 1k = 1000
  */
 export const parseAbbrValue = (value: string, decimalSeparator = '.'): number | undefined => {
-  const reg = new RegExp(`(\\d+(${escapeRegExp(decimalSeparator)}\\d*)?)([kmb])$`, 'i');
+  const reg = new RegExp(`${getAbbrPattern(decimalSeparator)}$`, 'i');
   const match = value.match(reg);
 
   if (match) {
-    const [, digits, , abbr] = match;
-    const multiplier = abbrMap[abbr.toLowerCase()];
+    const [, digits, abbr] = match;
+
+    return Number(toExponentNotation(digits, abbr, decimalSeparator));
+  }
+
+  return undefined;
+};
+
+/**
+ * Read a number with abbreviation starting at `position`, e.g. "1.5k" in "1.5k * 3"
+ *
+ * Returns the number in exponent notation with "." as decimal separator (e.g. "1.5e3")
+ * and the number of characters read, or undefined if there is no abbreviated number
+ */
+export const readAbbrValue = (
+  value: string,
+  position: number,
+  decimalSeparator = '.'
+): { value: string; length: number } | undefined => {
+  const reg = new RegExp(`${getAbbrPattern(decimalSeparator)}(?!\\w)`, 'iy');
+  reg.lastIndex = position;
+  const match = reg.exec(value);
+
+  if (match) {
+    const [read, digits, abbr] = match;
 
-    return Number(digits.replace(decimalSeparator, '.')) * multiplier;
+    return { value: toExponentNotation(digits, abbr, decimalSeparator), length: read.length };
   }
 
   return undefined;
@@ -0,0 +1,214 @@
+/**
+ * Exact fraction of two integers, used to calculate without floating point errors
+ *
+ * Always reduced, with a positive denominator
+ */
+export type Rational = { numerator: bigint; denominator: bigint };
+
+/**
+ * How to round a value that has more decimals than allowed, same names as `Intl.NumberFormat`
+ *
+ * - `ceil`: towards positive infinity
+ * - `floor`: towards negative infinity
+ * - `expand`: away from zero
+ * - `trunc`: towards zero
+ * - `halfCeil`, `halfFloor`, `halfExpand`, `halfTrunc`: to nearest, ties rounded as above
+ * - `halfEven`: to nearest, ties to the even digit (banker's rounding)
+ */
+export type RoundingMode =
+  | 'ceil'
+  | 'floor'
+  | 'expand'
+  | 'trunc'
+  | 'halfCeil'
+  | 'halfFloor'
+  | 'halfExpand'
+  | 'halfTrunc'
+  | 'halfEven';
+
+const abs = (value: bigint): bigint => (value < 0n ? -value : value);
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  let x = abs(a);
+  let y = abs(b);
+  while (y) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+};
+
+export const createRational = (numerator: bigint, denominator = 1n): Rational => {
+  if (denominator === 0n) {
+    throw new Error('Division by zero');
+  }
+
+  const sign = denominator < 0n ? -1n : 1n;
+  const divisor = gcd(numerator, denominator);
+
+  return {
+    numerator: (sign * numerator) / divisor,
+    denominator: (sign * denominator) / divisor,
+  };
+};
+
+/**
+ * Parse a plain or exponent notation number string eg. "-1234.5" or "1.2e-7"
+ */
+export const parseRational = (value: string): Rational => {
+  const match = /^([-+])?(\d*)(?:\.(\d*))?(?:e([-+]?\d+))?$/i.exec(value.trim());
+
+  if (!match || !(match[2] || match[3])) {
+    throw new Error(`Invalid number "${value}"`);
+  }
+
+  const [, sign, int = '', decimals = '', exponent = '0'] = match;
+  const shift = Number(exponent) - decimals.length;
+
+  // Prevent abuse eg. 1e999999999
+  if (Math.abs(shift) > 1000) {
+    throw new Error(`Number out of range "${value}"`);
+  }
+
+  const digits = BigInt(`${int}${decimals}` || '0') * (sign === '-' ? -1n : 1n);
+
+  return shift >= 0
+    ? createRational(digits * 10n ** BigInt(shift))
+    : createRational(digits, 10n ** BigInt(-shift));
+};
+
+export const rationalFromNumber = (value: number): Rational => {
+  if (!Number.isFinite(value)) {
+    throw new Error('Result is not finite');
+  }
+
+  return parseRational(String(value));
+};
+
+export const addRational = (a: Rational, b: Rational): Rational =>
+  createRational(
+    a.numerator * b.denominator + b.numerator * a.denominator,
+    a.denominator * b.denominator
+  );
+
+export const subtractRational = (a: Rational, b: Rational): Rational =>
+  addRational(a, negateRational(b));
+
+export const multiplyRational = (a: Rational, b: Rational): Rational =>
+  createRational(a.numerator * b.numerator, a.denominator * b.denominator);
+
+export const divideRational = (a: Rational, b: Rational): Rational =>
+  createRational(a.numerator * b.denominator, a.denominator * b.numerator);
+
+export const negateRational = ({ numerator, denominator }: Rational): Rational => ({
+  numerator: -numerator,
+  denominator,
+});
+
+export const absRational = ({ numerator, denominator }: Rational): Rational => ({
+  numerator: abs(numerator),
+  denominator,
+});
+
+/**
+ * Returns a negative number if a < b, 0 if equal and a positive number if a > b
+ */
+export const compareRational = (a: Rational, b: Rational): number => {
+  const difference = a.numerator * b.denominator - b.numerator * a.denominator;
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+};
+
+/**
+ * Raise to an integer power
+ */
+export const powRational = (base: Rational, exponent: bigint): Rational => {
+  const power = abs(exponent);
+  const result = createRational(base.numerator ** power, base.denominator ** power);
+  return exponent < 0n ? divideRational(createRational(1n), result) : result;
+};
+
+/**
+ * Divide integers and round the quotient to an integer
+ */
+export const divideAndRound = (
+  numerator: bigint,
+  denominator: bigint,
+  roundingMode: RoundingMode
+): bigint => {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const isPositive = numerator < 0n === denominator < 0n;
+  const awayFromZero = quotient + (isPositive ? 1n : -1n);
+
+  if (roundingMode === 'ceil') return isPositive ? awayFromZero : quotient;
+  if (roundingMode === 'floor') return isPositive ? quotient : awayFromZero;
+  if (roundingMode === 'expand') return awayFromZero;
+  if (roundingMode === 'trunc') return quotient;
+
+  const twiceRemainder = abs(remainder) * 2n;
+  if (twiceRemainder > abs(denominator)) return awayFromZero;
+  if (twiceRemainder < abs(denominator)) return quotient;
+
+  // Exactly half way
+  if (roundingMode === 'halfCeil') return isPositive ? awayFromZero : quotient;
+  if (roundingMode === 'halfFloor') return isPositive ? quotient : awayFromZero;
+  if (roundingMode === 'halfTrunc') return quotient;
+  if (roundingMode === 'halfEven') return quotient % 2n === 0n ? quotient : awayFromZero;
+  return awayFromZero;
+};
+
+/**
+ * Number of decimals needed to write the value exactly, or undefined if it repeats forever eg. 1/3
+ */
+export const getExactDecimals = ({ denominator }: Rational): number | undefined => {
+  let rest = denominator;
+  let twos = 0;
+  let fives = 0;
+  while (rest % 2n === 0n) {
+    rest /= 2n;
+    twos++;
+  }
+  while (rest % 5n === 0n) {
+    rest /= 5n;
+    fives++;
+  }
+  return rest === 1n ? Math.max(twos, fives) : undefined;
+};
+
+/**
+ * Convert to a plain decimal string with "." as decimal separator eg. "-1234.5"
+ *
+ * Values that cannot be written with `maxDecimals` decimals are rounded with `roundingMode`.
+ * Values that can are written exactly, without trailing zeros.
+ */
+export const rationalToDecimalString = (
+  value: Rational,
+  maxDecimals: number,
+  roundingMode: RoundingMode = 'halfExpand'
+): string => {
+  const exactDecimals = getExactDecimals(value);
+  const decimals =
+    exactDecimals !== undefined && exactDecimals <= maxDecimals ? exactDecimals : maxDecimals;
+  const scale = 10n ** BigInt(decimals);
+  const scaled = divideAndRound(value.numerator * scale, value.denominator, roundingMode);
+
+  if (scaled === 0n) {
+    return '0';
+  }
+
+  const digits = abs(scaled)
+    .toString()
+    .padStart(decimals + 1, '0');
+  const int = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+  return `${scaled < 0n ? '-' : ''}${int}${fraction ? `.${fraction}` : ''}`;
+};
+
+export const rationalToNumber = (value: Rational): number =>
+  // Enough decimals for all significant digits of a float
+  Number(rationalToDecimalString(value, value.denominator.toString().length + 17));
@@ -0,0 +1,44 @@
+import { divideAndRound, RoundingMode } from './rational';
+
+/**
+ * Round value to `decimals` decimals on the decimal string, without converting to a number
+ *
+ * Values with fewer decimals are returned as is.
+ *
+ * Eg. "1.239" > "1.24" with halfExpand, "1.239" > "1.23" with trunc
+ */
+export const roundValue = (
+  value: string,
+  decimalSeparator: string,
+  decimals: number,
+  roundingMode: RoundingMode
+): string => {
+  if (!decimalSeparator || !value.includes(decimalSeparator)) {
+    return value;
+  }
+
+  const [int, fraction, ...rest] = value.split(decimalSeparator);
+  const isNegative = int.startsWith('-');
+  const absInt = isNegative ? int.slice(1) : int;
+
+  if (fraction.length <= decimals || rest.length || !/^\d*$/.test(`${absInt}${fraction}`)) {
+    return value;
+  }
+
+  const rounded = divideAndRound(
+    BigInt(`${absInt}${fraction}`) * (isNegative ? -1n : 1n),
+    10n ** BigInt(fraction.length - decimals),
+    roundingMode
+  );
+
+  const roundedDigits = String(rounded < 0n ? -rounded : rounded).padStart(decimals + 1, '0');
+  const roundedInt = roundedDigits.slice(0, roundedDigits.length - decimals);
+  const roundedFraction = roundedDigits.slice(roundedDigits.length - decimals);
+
+  // Keep the sign of values rounded to zero and an omitted zero eg. "-.001" > "-.00"
+  return [
+    isNegative ? '-' : '',
+    roundedInt === '0' && !absInt ? '' : roundedInt,
+    decimals > 0 ? `${decimalSeparator}${roundedFraction}` : '',
+  ].join('');
+};
@@ -0,0 +1,108 @@
+import { CurrencyInputSignificantDigits } from '../CurrencyInputProps';
+import { divideAndRound, RoundingMode } from './rational';
+import { roundValue } from './roundValue';
+
+/**
+ * Minimum and maximum significant digits, a number sets both
+ */
+export const getSignificantDigitsRange = (
+  significantDigits?: number | CurrencyInputSignificantDigits
+): CurrencyInputSignificantDigits =>
+  typeof significantDigits === 'number'
+    ? { min: significantDigits, max: significantDigits }
+    : significantDigits || {};
+
+/**
+ * Whether the value has a significant digit, ie. a digit other than zero
+ */
+export const hasSignificantDigits = (value: string): boolean => /[1-9]/.test(value);
+
+/**
+ * Number of decimals for `significantDigits` significant digits of the value,
+ * negative when integer digits have to be rounded. Zero counts from the ones digit
+ *
+ * Eg. with 3 significant digits: "0.0012345" > 5, "1234.5" > -1, "0" > 2
+ */
+export const getSignificantDecimals = (
+  value: string,
+  decimalSeparator: string,
+  significantDigits: number
+): number => {
+  const [int = '', fraction = ''] = value.replace('-', '').split(decimalSeparator);
+  const firstSignificant = `${int}${fraction}`.search(/[1-9]/);
+  const integerDigits = firstSignificant === -1 ? 1 : int.length - firstSignificant;
+
+  return significantDigits - integerDigits;
+};
+
+/**
+ * Round integer digits of the value, `digits` being the number of digits rounded to zero
+ *
+ * Eg. "1234.5" with 2 digits > "1200" with trunc, "1300" with ceil
+ */
+const roundIntegerDigits = (
+  value: string,
+  decimalSeparator: string,
+  digits: number,
+  roundingMode: RoundingMode
+): string => {
+  const [int, fraction = ''] = value.split(decimalSeparator);
+  const isNegative = int.startsWith('-');
+  const factor = 10n ** BigInt(digits);
+
+  const rounded =
+    divideAndRound(
+      BigInt(`${int.replace('-', '')}${fraction}` || '0') * (isNegative ? -1n : 1n),
+      factor * 10n ** BigInt(fraction.length),
+      roundingMode
+    ) * factor;
+
+  return `${isNegative ? '-' : ''}${rounded < 0n ? -rounded : rounded}`;
+};
+
+/**
+ * Round value to the maximum significant digits and pad it with zeros to the minimum,
+ * on the decimal string without converting it to a number
+ *
+ * Eg. with 5 significant digits: "0.0012345678" > "0.0012345", "1.5" > "1.5000"
+ */
+export const applySignificantDigits = (
+  value: string,
+  decimalSeparator: string,
+  significantDigits: number | CurrencyInputSignificantDigits,
+  roundingMode: RoundingMode = 'trunc'
+): string => {
+  const { min, max } = getSignificantDigitsRange(significantDigits);
+
+  if (!decimalSeparator || !/^-?\d*$/.test(value.replace(decimalSeparator, ''))) {
+    return value;
+  }
+
+  let newValue = value;
+
+  if (max !== undefined && hasSignificantDigits(newValue)) {
+    const decimals = getSignificantDecimals(newValue, decimalSeparator, max);
+
+    newValue =
+      decimals < 0
+        ? roundIntegerDigits(newValue, decimalSeparator, -decimals, roundingMode)
+        : roundValue(newValue, decimalSeparator, decimals, roundingMode);
+
+    // Rounding up can add an integer digit eg. "9.996" > "10.000", drop the extra zero
+    const roundedDecimals = getSignificantDecimals(newValue, decimalSeparator, max);
+    if (roundedDecimals < decimals) {
+      newValue = roundValue(newValue, decimalSeparator, Math.max(roundedDecimals, 0), 'trunc');
+    }
+  }
+
+  if (min !== undefined && newValue.replace('-', '') !== '') {
+    const [int, fraction = ''] = newValue.split(decimalSeparator);
+    const decimals = getSignificantDecimals(newValue, decimalSeparator, min);
+
+    if (fraction.length < decimals) {
+      newValue = `${int}${decimalSeparator}${fraction.padEnd(decimals, '0')}`;
+    }
+  }
+
+  return newValue;
+};
@@ -0,0 +1,131 @@
+import {
+  absRational,
+  addRational,
+  createRational,
+  divideAndRound,
+  divideRational,
+  getExactDecimals,
+  multiplyRational,
+  parseRational,
+  Rational,
+  rationalToDecimalString,
+  RoundingMode,
+  subtractRational,
+} from './rational';
+
+/**
+ * Parse a number or decimal string, zero if empty or not a number eg. "-"
+ */
+const parseOrZero = (value?: number | string): Rational => {
+  try {
+    return parseRational(String(value));
+  } catch {
+    return createRational(0n);
+  }
+};
+
+/**
+ * Multiple of `size` offset from `base` closest to the value, rounded with `roundingMode`
+ */
+const roundToMultiple = (
+  value: Rational,
+  size: Rational,
+  base: Rational,
+  roundingMode: RoundingMode
+): Rational => {
+  const steps = divideRational(subtractRational(value, base), size);
+
+  return addRational(
+    base,
+    multiplyRational(
+      createRational(divideAndRound(steps.numerator, steps.denominator, roundingMode)),
+      size
+    )
+  );
+};
+
+/**
+ * Write the result of a step with at least the decimals of the step eg. 89 with step 5.5 > "89.0"
+ */
+const toStepString = (value: Rational, step: Rational): string => {
+  const exactValue = rationalToDecimalString(value, getExactDecimals(value) || 0);
+  const [int, fraction = ''] = exactValue.split('.');
+  const decimals = Math.max(getExactDecimals(step) || 0, fraction.length);
+
+  return decimals ? `${int}.${fraction.padEnd(decimals, '0')}` : int;
+};
+
+/**
+ * Add `step` times `multiplier` to the value, a plain decimal string with "." as decimal separator,
+ * without floating point math. An empty value counts as zero
+ *
+ * The result has at least the decimals of the step eg. "94.5" with step -5.5 > "89.0"
+ *
+ * With `snapBase`, the result is rounded in the direction of the step to a multiple of the step
+ * offset from `snapBase`, like `<input type="number">` with `min`
+ *
+ * Eg. "1.2" with step 1 and multiplier 0.1 > "1.3", "0.1" with step 0.2 > "0.3",
+ * "1.03" with step 0.05 and snap base 0 > "1.10"
+ */
+export const stepValue = (
+  value: string,
+  step: number,
+  multiplier = 1,
+  snapBase?: number | string
+): string => {
+  const delta = multiplyRational(parseRational(String(step)), parseRational(String(multiplier)));
+  const result = addRational(parseOrZero(value), delta);
+
+  if (snapBase === undefined || delta.numerator === 0n) {
+    return toStepString(result, delta);
+  }
+
+  return toStepString(
+    roundToMultiple(
+      result,
+      absRational(delta),
+      parseOrZero(snapBase),
+      delta.numerator > 0n ? 'ceil' : 'floor'
+    ),
+    delta
+  );
+};
+
+/**
+ * Round the value, a plain decimal string with "." as decimal separator, to the closest multiple
+ * of `step` offset from `base`
+ *
+ * Eg. "1.03" with step 0.05 > "1.05", "7" with step 5 and base 1 > "6"
+ */
+export const snapValue = (
+  value: string,
+  step: number,
+  base: number | string = 0,
+  roundingMode: RoundingMode = 'halfExpand'
+): string => {
+  const size = absRational(parseRational(String(step)));
+
+  if (size.numerator === 0n) {
+    return value;
+  }
+
+  return toStepString(
+    roundToMultiple(parseOrZero(value), size, parseOrZero(base), roundingMode),
+    size
+  );
+};
+
+/**
+ * Whether the value, a plain decimal string with "." as decimal separator, is a multiple
+ * of `step` offset from `base`
+ *
+ * Eg. "1.05" with step 0.05 > true, "1.03" > false
+ */
+export const isStepMultiple = (value: string, step: number, base: number | string = 0): boolean => {
+  const size = absRational(parseRational(String(step)));
+
+  return (
+    size.numerator === 0n ||
+    divideRational(subtractRational(parseOrZero(value), parseOrZero(base)), size).denominator === 1n
+  );
+};
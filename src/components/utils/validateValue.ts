@@ -0,0 +1,114 @@
+import {
+  CurrencyInputOnChangeValues,
+  CurrencyInputValidation,
+  CurrencyInputValidationError,
+  CurrencyInputValidationMessages,
+  CurrencyInputValidationRule,
+} from '../CurrencyInputProps';
+import { getOutOfRange } from './checkRange';
+import { getExactDecimals, parseRational, Rational } from './rational';
+import { isStepMultiple } from './stepValue';
+
+const defaultMessages: Record<CurrencyInputValidationRule, string> = {
+  required: 'Enter a value',
+  min: 'Enter {min} or more',
+  max: 'Enter {max} or less',
+  precision: 'Decimal places allowed: {precision}',
+  nonZero: 'Enter a value other than zero',
+  step: 'Enter a value in steps of {step}',
+};
+
+/**
+ * Message of a built-in rule with its params filled in
+ *
+ * Eg. "Enter {max} or less" with `{ max: '1000' }` > "Enter 1000 or less"
+ */
+const getMessage = (
+  rule: CurrencyInputValidationRule,
+  params: Record<string, string | number>,
+  messages: CurrencyInputValidationMessages = {}
+): string => {
+  const message = messages[rule] || defaultMessages[rule];
+
+  return typeof message === 'function'
+    ? message(params)
+    : message.replace(/\{(\w+)\}/g, (match, key) => (key in params ? String(params[key]) : match));
+};
+
+/**
+ * Parse the decimal value, undefined if empty or not a complete number eg. "-"
+ */
+const parseDecimal = (decimal: string): Rational | undefined => {
+  try {
+    return decimal ? parseRational(decimal) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Validate the value with the built-in rules, then the custom validators
+ *
+ * Built-in rules other than `required` only apply to a value that isn't empty,
+ * and `step` only as a number. Returns the errors, empty when the value is valid
+ */
+export const validateValue = (
+  value: string | undefined,
+  values: CurrencyInputOnChangeValues,
+  { required, min, max, precision, nonZero, step, custom = [], messages }: CurrencyInputValidation
+): CurrencyInputValidationError[] => {
+  const errors: CurrencyInputValidationError[] = [];
+  const addError = (rule: CurrencyInputValidationRule, params: Record<string, string | number>) =>
+    errors.push({ code: rule, message: getMessage(rule, params, messages), params });
+  const number = parseDecimal(values.decimal);
+
+  if (required && !number) {
+    addError('required', {});
+  }
+
+  if (number) {
+    const outOfRange = getOutOfRange(values.decimal, min, max);
+
+    if (outOfRange === 'min') {
+      addError('min', { min: String(min) });
+    }
+
+    if (outOfRange === 'max') {
+      addError('max', { max: String(max) });
+    }
+
+    const decimals = getExactDecimals(number);
+    if (precision !== undefined && (decimals === undefined || decimals > precision)) {
+      addError('precision', { precision });
+    }
+
+    if (nonZero && number.numerator === 0n) {
+      addError('nonZero', {});
+    }
+
+    const base = min !== undefined ? min : 0;
+    if (typeof step === 'number' && !isStepMultiple(values.decimal, step, base)) {
+      addError('step', { step: String(step), base: String(base) });
+    }
+  }
+
+  (Array.isArray(custom) ? custom : [custom]).forEach((validator) => {
+    const error = validator(value, values);
+
+    if (error) {
+      errors.push(typeof error === 'string' ? { code: 'custom', message: error } : error);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Whether both lists have the same errors, by code and message
+ */
+export const isSameValidation = (
+  a: CurrencyInputValidationError[],
+  b: CurrencyInputValidationError[]
+): boolean =>
+  a.length === b.length &&
+  a.every((error, i) => error.code === b[i].code && error.message === b[i].message);
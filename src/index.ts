@@ -3,11 +3,34 @@ import CurrencyInput from './components/CurrencyInput';
 export type {
   CurrencyInputProps,
   CurrencyInputOnChangeValues,
+  CurrencyInputApi,
+  CurrencyInputExpressionPreview,
+  CurrencyInputMathExpressionOptions,
+  CurrencyInputSignificantDigits,
+  CurrencyInputSpinnerOptions,
+  CurrencyInputStepMultipliers,
+  CurrencyInputTape,
+  CurrencyInputTapeEntry,
+  CurrencyInputValidation,
+  CurrencyInputValidationError,
+  CurrencyInputValidationMessages,
+  CurrencyInputValidationRule,
+  CurrencyInputValidator,
   IntlConfig,
 } from './components/CurrencyInputProps';
 
 export { CurrencyInput } from './components/CurrencyInput';
 export { formatValue } from './components/utils/formatValue';
 export { cleanValue } from './components/utils/cleanValue';
+export { evaluateMathExpression } from './components/utils/evaluate-math-expression-simple';
+export type {
+  EvaluateMathExpressionResultOptions,
+  MathExpressionError,
+  MathExpressionErrorCode,
+  MathExpressionOperator,
+  MathExpressionPercentageMode,
+  MathExpressionResult,
+} from './components/utils/evaluate-math-expression-simple';
+export type { RoundingMode } from './components/utils/rational';
 
 export default CurrencyInput;